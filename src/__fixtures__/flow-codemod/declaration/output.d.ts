@@ -0,0 +1,4 @@
+import { $ReadOnly, mixed } from 'utility-types';
+
+export declare function freeze<T>(value: T): $ReadOnly<T>;
+export declare var config: { [key: string]: mixed };
@@ -0,0 +1,7 @@
+'use strict';
+// @flow
+
+type Props = { name: string, age: number };
+
+export type PropsKeys = $Keys<Props>;
+export type Unknown = mixed;
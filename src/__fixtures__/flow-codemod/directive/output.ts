@@ -0,0 +1,7 @@
+'use strict';
+import { $Keys, mixed } from 'utility-types';
+
+type Props = { name: string, age: number };
+
+export type PropsKeys = $Keys<Props>;
+export type Unknown = mixed;
@@ -0,0 +1,10 @@
+// @flow
+import * as React from 'react';
+
+type Props = { name: string, age: number };
+
+export const Greeting = (props: $ReadOnly<Props>) => (
+  <p className="greeting">
+    Hi {props.name}
+  </p>
+);
@@ -0,0 +1,10 @@
+import * as React from 'react';
+import { $ReadOnly } from 'utility-types';
+
+type Props = { name: string, age: number };
+
+export const Greeting = (props: $ReadOnly<Props>) => (
+  <p className="greeting">
+    Hi {props.name}
+  </p>
+);
@@ -0,0 +1,13 @@
+/**
+ * @format
+ */
+
+import { $Keys, $Values, mixed } from 'utility-types';
+
+const settings = require('./settings');
+
+type Props = { name: string, age: number };
+
+export type Keys = $Keys<Props>;
+export type Values = $Values<Props>;
+export const value: mixed = settings.mixed;
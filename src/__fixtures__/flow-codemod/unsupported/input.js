@@ -0,0 +1,18 @@
+// @flow
+type User = {| name: string |};
+type MaybeUser = ?User;
+type SubUser = $Subtype<User>;
+opaque type Token = string;
+
+function isString(value: mixed): boolean %checks {
+  return typeof value === 'string';
+}
+
+const users: Array<*> = [];
+const admin /*: User */ = { name: 'admin' };
+
+function first<T: mixed>(values: Array<T>): T {
+  return values[0];
+}
+
+const count = ((users.length: any): number);
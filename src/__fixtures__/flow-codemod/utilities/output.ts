@@ -0,0 +1,31 @@
+import * as React from 'react';
+import type { Node } from 'react';
+import { $Call, $Diff, $ElementType, $Exact, $KeyMirror, $Keys, $NonMaybeType, $ObjMap, $ObjMapi, $PropertyType, $ReadOnly, $Rest, $Shape, $TupleMap, $Values, Class, mixed } from 'utility-types';
+
+type Props = { name: string, age: number, visible: boolean };
+type DefaultProps = { age: number };
+type ExtractName = (props: Props) => string;
+
+export type PropsKeys = $Keys<Props>;
+export type PropsValues = $Values<Props>;
+export type RequiredProps = $Diff<Props, DefaultProps>;
+export type ReadOnlyProps = $ReadOnly<Props>;
+export type Name = $PropertyType<Props, 'name'>;
+export type Age = $ElementType<Props, 'age'>;
+export type PartialProps = $Shape<Props>;
+export type Visible = $NonMaybeType<boolean | null>;
+export type Component = Class<React.Component<Props>>;
+export type NameType = $Call<ExtractName>;
+export type ExactProps = $Exact<Props>;
+export type OptionalProps = $Rest<Props, DefaultProps>;
+export type Getters = $ObjMap<Props, <V>(V) => () => V>;
+export type Entries = $ObjMapi<Props, <K, V>(K, V) => [K, V]>;
+export type Thunks = $TupleMap<[number, string], <V>(V) => () => V>;
+export type PropsKeyMirror = $KeyMirror<Props>;
+export type Unknown = mixed;
+
+export function describe(value: mixed, cache: Map<string, mixed>): string {
+  // comments are not translated: $Values<Props>, mixed
+  const label = `${String(value)} of $Keys<Props>: mixed`;
+  return cache.has(label) ? '$Shape<Props>' : label;
+}
@@ -1,4 +1,5 @@
 import { testType } from '../utils/test-utils';
+import { Equals, Expect, expectType } from './type-assertions';
 import {
   Primitive,
   isPrimitive,
@@ -6,12 +7,39 @@ import {
   isFalsy,
   Nullish,
   isNullish,
+  Maybe,
+  Guard,
+  GuardType,
+  isArrayOf,
+  isRecordOf,
+  isTupleOf,
+  isOneOf,
+  isAllOf,
+  not,
+  isLiteral,
+  isShape,
 } from './aliases-and-guards';
 
+/**
+ * Fixtures
+ */
+
+const isString = (val: unknown): val is string => typeof val === 'string';
+const isNumber = (val: unknown): val is number => typeof val === 'number';
+
 // @dts-jest:group Primitive
 {
   // @dts-jest:pass:snap -> Primitive
   testType<Primitive>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        Primitive,
+        string | number | bigint | boolean | symbol | null | undefined
+      >
+    >
+  ];
 }
 
 // @dts-jest:group isPrimitive
@@ -19,11 +47,11 @@ it('narrows to correct type', () => {
   const consumer = (param: Primitive[] | Primitive): string => {
     if (isPrimitive(param)) {
       // @dts-jest:pass:snap -> Primitive
-      param;
+      expectType<Primitive>()(param);
       return String(param) + ' was Primitive';
     }
     // @dts-jest:pass:snap -> Primitive[]
-    param;
+    expectType<Primitive[]>()(param);
     const resultArray = param
       .map(consumer)
       .map(rootString => '\n\t' + rootString);
@@ -35,6 +63,8 @@ it('narrows to correct type', () => {
 {
   // @dts-jest:pass:snap -> Falsy
   testType<Falsy>();
+
+  type Cases = [Expect<Equals<Falsy, false | '' | 0 | null | undefined>>];
 }
 
 // @dts-jest:group isFalsy
@@ -42,11 +72,11 @@ it('narrows to correct type', () => {
   const consumer = (param: Falsy | string): string => {
     if (isFalsy(param)) {
       // @dts-jest:pass:snap -> false | 0 | null | undefined
-      param;
+      expectType<false | 0 | null | undefined>()(param);
       return String(param) + ' was Falsy';
     }
     // @dts-jest:pass:snap -> string
-    param;
+    expectType<string>()(param);
     return param.toString();
   };
 });
@@ -72,11 +102,11 @@ it('narrows to correct type', () => {
   const consumer = (param: Nullish | string): string => {
     if (isNullish(param)) {
       // @dts-jest:pass:snap -> Nullish
-      param;
+      expectType<Nullish>()(param);
       return String(param) + ' was Nullish';
     }
     // @dts-jest:pass:snap -> string
-    param;
+    expectType<string>()(param);
     return param.toString();
   };
 });
@@ -96,3 +126,159 @@ it('returns false for non-nullish', () => {
   const testResults = nonNullishTestVals.map(isNullish);
   testResults.forEach(val => expect(val).toBe(false));
 });
+
+// @dts-jest:group Maybe
+{
+  // @dts-jest:pass:snap -> string | null | undefined
+  testType<Maybe<string>>();
+
+  type Cases = [
+    Expect<Equals<Maybe<string>, string | null | undefined>>,
+    Expect<Equals<NonNullable<Maybe<string>>, string>>
+  ];
+}
+
+// @dts-jest:group Guard
+{
+  // @dts-jest:pass:snap -> Guard<string>
+  testType<Guard<string>>();
+
+  type Cases = [Expect<Equals<Guard<string>, (val: unknown) => val is string>>];
+}
+
+// @dts-jest:group GuardType
+{
+  // @dts-jest:pass:snap -> Primitive
+  testType<GuardType<typeof isPrimitive>>();
+  // @dts-jest:pass:snap -> string[]
+  testType<GuardType<Guard<string[]>>>();
+  // @dts-jest:pass:snap -> never
+  testType<GuardType<(val: unknown) => boolean>>();
+
+  type Cases = [
+    Expect<Equals<GuardType<typeof isPrimitive>, Primitive>>,
+    Expect<Equals<GuardType<Guard<string[]>>, string[]>>,
+    Expect<Equals<GuardType<(val: unknown) => boolean>, never>>
+  ];
+}
+
+// @dts-jest:group isArrayOf
+it('narrows to array of guarded type', () => {
+  const isStringArray = isArrayOf(isString);
+  // @dts-jest:pass:snap -> string[]
+  testType<GuardType<typeof isStringArray>>();
+
+  expect(isStringArray(['a', 'b'])).toBe(true);
+  expect(isStringArray([])).toBe(true);
+  expect(isStringArray(['a', 1])).toBe(false);
+  expect(isStringArray('a')).toBe(false);
+  expect(isArrayOf(isArrayOf(isNumber))([[1], [2, 3]])).toBe(true);
+});
+
+// @dts-jest:group isRecordOf
+it('narrows to record of guarded type', () => {
+  class Point {
+    constructor(public x: number) {}
+  }
+  const isNumberRecord = isRecordOf(isNumber);
+  // @dts-jest:pass:snap -> Record<string, number>
+  testType<GuardType<typeof isNumberRecord>>();
+
+  expect(isNumberRecord({ a: 1, b: 2 })).toBe(true);
+  expect(isNumberRecord({})).toBe(true);
+  expect(isNumberRecord({ a: 1, b: '2' })).toBe(false);
+  expect(isNumberRecord(Object.create(null))).toBe(true);
+  expect(isNumberRecord([1, 2])).toBe(false);
+  expect(isNumberRecord(new Date())).toBe(false);
+  expect(isNumberRecord(new Map([['a', 1]]))).toBe(false);
+  expect(isNumberRecord(new Point(1))).toBe(false);
+  expect(isNumberRecord(null)).toBe(false);
+});
+
+// @dts-jest:group isTupleOf
+it('narrows to tuple of guarded types', () => {
+  const isEntry = isTupleOf(isString, isNumber);
+  // @dts-jest:pass:snap -> [string, number]
+  testType<GuardType<typeof isEntry>>();
+
+  expect(isEntry(['a', 1])).toBe(true);
+  expect(isEntry(['a', 'b'])).toBe(false);
+  expect(isEntry(['a', 1, 2])).toBe(false);
+  expect(isEntry(['a'])).toBe(false);
+  expect(isEntry({ 0: 'a', 1: 1, length: 2 })).toBe(false);
+});
+
+// @dts-jest:group isOneOf
+it('narrows to union of guarded types', () => {
+  const isStringOrNumber = isOneOf(isString, isNumber);
+  // @dts-jest:pass:snap -> string | number
+  testType<GuardType<typeof isStringOrNumber>>();
+
+  expect(isStringOrNumber('a')).toBe(true);
+  expect(isStringOrNumber(1)).toBe(true);
+  expect(isStringOrNumber(true)).toBe(false);
+});
+
+// @dts-jest:group isAllOf
+it('narrows to intersection of guarded types', () => {
+  const isEntity = isAllOf(
+    isShape({ id: isNumber }),
+    isShape({ name: isString })
+  );
+  // @dts-jest:pass:snap -> { id: number; } & { name: string; }
+  testType<GuardType<typeof isEntity>>();
+
+  expect(isEntity({ id: 1, name: 'Yolo' })).toBe(true);
+  expect(isEntity({ id: 1 })).toBe(false);
+  expect(isEntity({ name: 'Yolo' })).toBe(false);
+});
+
+// @dts-jest:group not
+it('narrows by excluding guarded type', () => {
+  const consumer = (param: Nullish | string): string => {
+    if (not(isNullish)(param)) {
+      // @dts-jest:pass:snap -> string
+      expectType<string>()(param);
+      return param;
+    }
+    // @dts-jest:pass:snap -> Nullish
+    expectType<Nullish>()(param);
+    return String(param);
+  };
+
+  expect(consumer('a')).toBe('a');
+  expect(consumer(null)).toBe('null');
+  expect(not(isString)(1)).toBe(true);
+  expect(not(isString)('a')).toBe(false);
+});
+
+// @dts-jest:group isLiteral
+it('narrows to union of literal types', () => {
+  const isDirection = isLiteral('up', 'down', 0, null);
+  // @dts-jest:pass:snap -> 0 | "up" | "down" | null
+  testType<GuardType<typeof isDirection>>();
+
+  expect(isDirection('up')).toBe(true);
+  expect(isDirection(0)).toBe(true);
+  expect(isDirection(null)).toBe(true);
+  expect(isDirection('left')).toBe(false);
+  expect(isDirection(undefined)).toBe(false);
+});
+
+// @dts-jest:group isShape
+it('narrows to object of guarded types', () => {
+  const isUser = isShape({
+    name: isString,
+    role: isLiteral('admin', 'user'),
+    tags: isArrayOf(isString),
+  });
+  // @dts-jest:pass:snap -> { name: string; role: "admin" | "user"; tags: string[]; }
+  testType<GuardType<typeof isUser>>();
+
+  expect(isUser({ name: 'Yolo', role: 'admin', tags: [] })).toBe(true);
+  expect(isUser({ name: 'Yolo', role: 'admin', tags: [], age: 99 })).toBe(true);
+  expect(isUser({ name: 'Yolo', role: 'guest', tags: [] })).toBe(false);
+  expect(isUser({ name: 'Yolo', role: 'admin' })).toBe(false);
+  expect(isUser(null)).toBe(false);
+  expect(isUser('Yolo')).toBe(false);
+});
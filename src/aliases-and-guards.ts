@@ -1,3 +1,5 @@
+import { UnionToIntersection } from './mapped-types';
+
 /**
  * Primitive
  * @desc Type representing [`Primitive`](https://developer.mozilla.org/en-US/docs/Glossary/Primitive) types in TypeScript: `string | number | bigint | boolean |  symbol | null | undefined`
@@ -38,6 +40,15 @@ export type Falsy = false | '' | 0 | null | undefined;
  */
 export type Nullish = null | undefined;
 
+/**
+ * Maybe
+ * @desc Type representing a value of type `T` that can also be missing: `T | null | undefined`
+ * @example
+ *   // Expect: string | null | undefined
+ *   type Name = Maybe<string>;
+ */
+export type Maybe<T> = T | Nullish;
+
 /**
  * Tests for one of the [`Primitive`](https://developer.mozilla.org/en-US/docs/Glossary/Primitive) types using the JavaScript [`typeof`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/typeof) operator
  *
@@ -101,3 +112,132 @@ export const isFalsy = (val: unknown): val is Falsy => !val;
  *   };
  */
 export const isNullish = (val: unknown): val is Nullish => val == null;
+
+/**
+ * Guard
+ * @desc Type representing a type guard function narrowing `unknown` value to type `T`
+ * @example
+ *   // Expect: (val: unknown) => val is string
+ *   type StringGuard = Guard<string>;
+ */
+export type Guard<T> = (val: unknown) => val is T;
+
+/**
+ * GuardType
+ * @desc Get the type narrowed by a given type guard function `G`
+ * @example
+ *   // Expect: Primitive
+ *   type Narrowed = GuardType<typeof isPrimitive>;
+ */
+export type GuardType<G> = G extends (val: any) => val is infer T ? T : never;
+
+/**
+ * Creates a type guard testing for an array with every element passing the given `guard`.
+ * @example
+ *   const isNullishArray = isArrayOf(isNullish);
+ *
+ *   // Expect: true
+ *   isNullishArray([null, undefined]);
+ */
+export const isArrayOf = <T>(guard: Guard<T>) => (val: unknown): val is T[] =>
+  Array.isArray(val) && val.every(guard);
+
+/**
+ * Creates a type guard testing for a plain object (not an array, `Date`, `Map` or class instance) with every own property value passing the given `guard`.
+ * @example
+ *   const isPrimitiveRecord = isRecordOf(isPrimitive);
+ *
+ *   // Expect: true
+ *   isPrimitiveRecord({ name: 'Yolo', age: 99 });
+ */
+export const isRecordOf = <T>(guard: Guard<T>) => (
+  val: unknown
+): val is Record<string, T> =>
+  typeof val === 'object' &&
+  val !== null &&
+  (Object.getPrototypeOf(val) === Object.prototype ||
+    Object.getPrototypeOf(val) === null) &&
+  Object.keys(val).every(key => guard((val as Record<string, unknown>)[key]));
+
+/**
+ * Creates a type guard testing for an array with exactly one element per given guard, every element passing the guard at its position.
+ * @example
+ *   const isEntry = isTupleOf(isLiteral('name', 'age'), isPrimitive);
+ *
+ *   // Expect: ["name" | "age", Primitive]
+ *   type Entry = GuardType<typeof isEntry>;
+ */
+export const isTupleOf = <G extends Array<Guard<any>>>(...guards: G) => (
+  val: unknown
+): val is { [K in keyof G]: GuardType<G[K]> } =>
+  Array.isArray(val) &&
+  val.length === guards.length &&
+  guards.every((guard, index) => guard(val[index]));
+
+/**
+ * Creates a type guard testing for a value passing any of the given guards.
+ * @example
+ *   const isMissing = isOneOf(isNullish, isLiteral(''));
+ *
+ *   // Expect: "" | null | undefined
+ *   type Missing = GuardType<typeof isMissing>;
+ */
+export const isOneOf = <G extends Array<Guard<any>>>(...guards: G) => (
+  val: unknown
+): val is GuardType<G[number]> => guards.some(guard => guard(val));
+
+/**
+ * Creates a type guard testing for a value passing all of the given guards.
+ * @example
+ *   const isEntity = isAllOf(isShape({ id: isPrimitive }), isShape({ name: isPrimitive }));
+ *
+ *   // Expect: { id: Primitive } & { name: Primitive }
+ *   type Entity = GuardType<typeof isEntity>;
+ */
+export const isAllOf = <G extends Array<Guard<any>>>(...guards: G) => (
+  val: unknown
+): val is UnionToIntersection<GuardType<G[number]>> =>
+  guards.every(guard => guard(val));
+
+/**
+ * Creates a type guard testing for a value which doesn't pass the given `guard`, it narrows by excluding the guarded type.
+ * @example
+ *   const consumer = (param: Nullish | string): string => {
+ *     if (not(isNullish)(param)) {
+ *       // typeof param === string
+ *       return param;
+ *     }
+ *     return '';
+ *   };
+ */
+export const not = <T>(guard: Guard<T>) => <V>(val: V): val is Exclude<V, T> =>
+  !guard(val);
+
+/**
+ * Creates a type guard testing for one of the given literal `values` using strict equality.
+ * @example
+ *   const isDirection = isLiteral('up', 'down');
+ *
+ *   // Expect: "up" | "down"
+ *   type Direction = GuardType<typeof isDirection>;
+ */
+export const isLiteral = <L extends Primitive[]>(...values: L) => (
+  val: unknown
+): val is L[number] => values.indexOf(val as Primitive) !== -1;
+
+/**
+ * Creates a type guard testing for an object with every property of the given `shape` passing its guard. Other properties are allowed.
+ * @example
+ *   const isUser = isShape({ name: isPrimitive, role: isLiteral('admin', 'user') });
+ *
+ *   // Expect: { name: Primitive; role: "admin" | "user" }
+ *   type User = GuardType<typeof isUser>;
+ */
+export const isShape = <S extends Record<string, Guard<any>>>(shape: S) => (
+  val: unknown
+): val is { [K in keyof S]: GuardType<S[K]> } =>
+  typeof val === 'object' &&
+  val !== null &&
+  Object.keys(shape).every(key =>
+    shape[key]((val as Record<string, unknown>)[key])
+  );
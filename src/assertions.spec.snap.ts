@@ -0,0 +1,182 @@
+import { expectType } from './type-assertions';
+import { Primitive, isNullish, isPrimitive } from './aliases-and-guards';
+import {
+  TypeAssertionError,
+  assert,
+  assertNever,
+  assertNonNullish,
+  assertNotFalsy,
+  assertPrimitive,
+} from './assertions';
+
+/**
+ * Fixtures
+ */
+
+const isString = (val: unknown): val is string => typeof val === 'string';
+
+const catchError = (fn: () => void): TypeAssertionError => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected to throw');
+};
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group TypeAssertionError
+it('carries the expected type and a preview of the actual value', () => {
+  const error = new TypeAssertionError('string', 42);
+
+  expect(error).toBeInstanceOf(TypeAssertionError);
+  expect(error).toBeInstanceOf(TypeError);
+  expect(error.name).toBe('TypeAssertionError');
+  expect(error.expected).toBe('string');
+  expect(error.actual).toBe('42');
+  expect(error.message).toBe('Expected string, but received 42');
+  expect(new TypeAssertionError('string', 42, 'Invalid id').message).toBe(
+    'Invalid id'
+  );
+});
+
+// @dts-jest:group TypeAssertionError - preview
+it('previews values safely', () => {
+  const preview = (value: unknown) =>
+    new TypeAssertionError('never', value).actual;
+
+  expect(preview('Yolo')).toBe('"Yolo"');
+  expect(preview('a'.repeat(60))).toBe(`"${'a'.repeat(50)}"...`);
+  expect(preview(undefined)).toBe('undefined');
+  expect(preview(null)).toBe('null');
+  expect(preview(Symbol('id'))).toBe('Symbol(id)');
+  expect(preview(isString)).toBe('[Function isString]');
+  expect(preview([1, 2, 3])).toBe('Array(3)');
+  expect(preview(new Date(0))).toBe('[object Date]');
+  expect(
+    preview({
+      toString: () => {
+        throw new Error();
+      },
+    })
+  ).toBe('[object Object]');
+});
+
+// @dts-jest:group assert
+it('narrows with any type guard', () => {
+  const consumer = (param: unknown) => {
+    assert(isString, param);
+    // @dts-jest:pass:snap -> string
+    expectType<string>()(param);
+    return param;
+  };
+
+  expect(consumer('Yolo')).toBe('Yolo');
+  expect(catchError(() => consumer(1))).toMatchObject({
+    expected: 'String',
+    actual: '1',
+    message: 'Expected String, but received 1',
+  });
+  expect(() => assert(isNullish, 0, 'Expected nothing')).toThrow(
+    'Expected nothing'
+  );
+  expect(
+    catchError(() => assert((val): val is 1 => val === 1, 2)).expected
+  ).toBe('guarded type');
+});
+
+// @dts-jest:group assertPrimitive
+it('narrows to Primitive', () => {
+  const consumer = (param: Primitive[] | Primitive): string => {
+    assertPrimitive(param);
+    // @dts-jest:pass:snap -> Primitive
+    expectType<Primitive>()(param);
+    return String(param);
+  };
+
+  expect(consumer('Yolo')).toBe('Yolo');
+  expect(() => consumer([])).toThrow(TypeAssertionError);
+  expect(catchError(() => assertPrimitive({})).message).toBe(
+    'Expected Primitive, but received [object Object]'
+  );
+  expect(isPrimitive(null)).toBe(true);
+});
+
+// @dts-jest:group assertNonNullish
+it('narrows to $NonMaybeType', () => {
+  const consumer = (param: string | null | undefined): string => {
+    assertNonNullish(param);
+    // @dts-jest:pass:snap -> string
+    expectType<string>()(param);
+    return param;
+  };
+
+  expect(consumer('')).toBe('');
+  expect(() => consumer(null)).toThrow(
+    'Expected NonNullish, but received null'
+  );
+  expect(() => consumer(undefined)).toThrow(TypeAssertionError);
+});
+
+// @dts-jest:group assertNever
+it('checks exhaustiveness at compile time and throws at runtime', () => {
+  type Action =
+    | { type: 'increment' }
+    | { type: 'decrement' }
+    | { type: 'reset'; value: number };
+
+  const reducer = (state: number, action: Action): number => {
+    switch (action.type) {
+      case 'increment':
+        return state + 1;
+      case 'decrement':
+        return state - 1;
+      case 'reset':
+        return action.value;
+      default:
+        // @dts-jest:pass:snap -> never
+        expectType<never>()(action);
+        return assertNever(action);
+    }
+  };
+
+  const partialReducer = (state: number, action: Action): number => {
+    switch (action.type) {
+      case 'increment':
+        return state + 1;
+      default:
+        // @ts-expect-error
+        return assertNever(action);
+    }
+  };
+
+  expect(reducer(1, { type: 'increment' })).toBe(2);
+  expect(reducer(1, { type: 'reset', value: 5 })).toBe(5);
+  expect(() => reducer(1, { type: 'unknown' } as any)).toThrow(
+    'Expected never, but received [object Object]'
+  );
+  expect(() => partialReducer(1, { type: 'decrement' })).toThrow(
+    TypeAssertionError
+  );
+  expect(() => assertNever('Yolo' as never, 'Unhandled value')).toThrow(
+    'Unhandled value'
+  );
+});
+
+// @dts-jest:group assertNotFalsy
+it('narrows by excluding Falsy', () => {
+  const consumer = (param: string | false | 0): string => {
+    assertNotFalsy(param);
+    // @dts-jest:pass:snap -> string
+    expectType<string>()(param);
+    return param;
+  };
+
+  expect(consumer('Yolo')).toBe('Yolo');
+  expect(() => consumer('')).toThrow('Expected Truthy, but received ""');
+  expect(() => consumer(0)).toThrow(TypeAssertionError);
+  expect(() => consumer(false)).toThrow(TypeAssertionError);
+});
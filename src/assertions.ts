@@ -0,0 +1,163 @@
+import { Falsy, Primitive, isFalsy, isPrimitive } from './aliases-and-guards';
+import { $NonMaybeType } from './utility-types';
+
+/** @private */
+const maxPreviewLength = 50;
+
+/** @private */
+const previewValue = (value: unknown): string => {
+  switch (typeof value) {
+    case 'string':
+      return (value as string).length > maxPreviewLength
+        ? `${JSON.stringify((value as string).slice(0, maxPreviewLength))}...`
+        : JSON.stringify(value);
+    case 'bigint':
+      return `${String(value)}n`;
+    case 'symbol':
+      return String(value);
+    case 'function':
+      return `[Function ${(value as Function).name || 'anonymous'}]`;
+    case 'object':
+      return value === null
+        ? 'null'
+        : Array.isArray(value)
+        ? `Array(${value.length})`
+        : Object.prototype.toString.call(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Error thrown by the assertion functions when a value is not of the expected type.
+ * It carries the name of the `expected` type and a safe preview of the `actual` value,
+ * the preview never calls custom `toString` methods and is truncated for long strings.
+ *
+ * @example
+ *   try {
+ *     assertPrimitive({});
+ *   } catch (error) {
+ *     if (error instanceof TypeAssertionError) {
+ *       // Expect: 'Primitive', '[object Object]'
+ *       report(error.expected, error.actual);
+ *     }
+ *   }
+ */
+export class TypeAssertionError extends TypeError {
+  /** Name of the expected type */
+  readonly expected: string;
+  /** Safe preview of the actual value */
+  readonly actual: string;
+
+  constructor(expected: string, value: unknown, message?: string) {
+    const actual = previewValue(value);
+    super(message || `Expected ${expected}, but received ${actual}`);
+    // restore the prototype chain broken by extending a built-in class in ES5
+    Object.setPrototypeOf(this, TypeAssertionError.prototype);
+    this.name = 'TypeAssertionError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Asserts that `value` passes the given type `guard`, throws a `TypeAssertionError` otherwise.
+ * The expected type name is taken from the guard function name without the `is` prefix.
+ *
+ * @param guard The type guard to be turned into an assertion
+ * @param value The value to be tested
+ * @param message Optional message of the thrown error
+ *
+ * @example
+ *   const consumer = (param: unknown) => {
+ *     assert(isPrimitive, param);
+ *     // typeof param === Primitive
+ *   };
+ */
+export function assert<T>(
+  guard: (val: any) => val is T,
+  value: unknown,
+  message?: string
+): asserts value is T {
+  if (!guard(value)) {
+    throw new TypeAssertionError(
+      guard.name.replace(/^is(?=[A-Z])/, '') || 'guarded type',
+      value,
+      message
+    );
+  }
+}
+
+/**
+ * Asserts that `value` is a `Primitive`, throws a `TypeAssertionError` otherwise.
+ * @example
+ *   const consumer = (param: Primitive[] | Primitive): string => {
+ *     assertPrimitive(param);
+ *     // typeof param === Primitive
+ *     return String(param);
+ *   };
+ */
+export function assertPrimitive(
+  value: unknown,
+  message?: string
+): asserts value is Primitive {
+  if (!isPrimitive(value)) {
+    throw new TypeAssertionError('Primitive', value, message);
+  }
+}
+
+/**
+ * Asserts that `value` is neither `null` nor `undefined`, throws a `TypeAssertionError` otherwise.
+ * @example
+ *   const consumer = (param: string | null | undefined): string => {
+ *     assertNonNullish(param);
+ *     // typeof param === string
+ *     return param;
+ *   };
+ */
+export function assertNonNullish<T>(
+  value: T,
+  message?: string
+): asserts value is $NonMaybeType<T> {
+  if (value == null) {
+    throw new TypeAssertionError('NonNullish', value, message);
+  }
+}
+
+/**
+ * Marks a branch that can't be reached, always throws a `TypeAssertionError`.
+ * The `never` parameter makes the compiler report the unhandled members when a `switch` or `if` chain is not exhaustive.
+ * @example
+ *   const reducer = (state: State, action: Action): State => {
+ *     switch (action.type) {
+ *       case 'increment':
+ *         return state + 1;
+ *       case 'decrement':
+ *         return state - 1;
+ *       default:
+ *         // compile error when a new action is not handled
+ *         return assertNever(action);
+ *     }
+ *   };
+ */
+export function assertNever(value: never, message?: string): never {
+  throw new TypeAssertionError('never', value, message);
+}
+
+/**
+ * Asserts that `value` is not `Falsy`, throws a `TypeAssertionError` otherwise.
+ * @example
+ *   const consumer = (param: string | false | 0): string => {
+ *     assertNotFalsy(param);
+ *     // typeof param === string
+ *     return param;
+ *   };
+ */
+export function assertNotFalsy<T>(
+  value: T,
+  message?: string
+): asserts value is Exclude<T, Falsy> {
+  if (isFalsy(value)) {
+    throw new TypeAssertionError('Truthy', value, message);
+  }
+}
@@ -0,0 +1,104 @@
+import { testType } from '../utils/test-utils';
+import {
+  Equals,
+  Expect,
+  ExpectFalse,
+  Extends,
+  expectType,
+} from './type-assertions';
+import { Brand } from './mapped-types';
+import { UniqueBrand, Unbrand, makeBrand } from './brand';
+
+/**
+ * Fixtures
+ */
+
+type USD = Brand<number, 'USD'>;
+type Email = UniqueBrand<string, 'Email'>;
+
+const USD = makeBrand<USD>(value => Number.isFinite(value) && value >= 0);
+const Email = makeBrand<Email>(value => /^[^@\s]+@[^@\s]+$/.test(value));
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group UniqueBrand
+{
+  // @dts-jest:pass:snap -> UniqueBrand<string, "Email">
+  testType<UniqueBrand<string, 'Email'>>();
+  // @dts-jest:pass:snap -> false
+  testType<
+    UniqueBrand<string, 'Email'> extends Brand<string, 'Email'> ? true : false
+  >();
+
+  type Cases = [
+    Expect<Extends<UniqueBrand<string, 'Email'>, string>>,
+    ExpectFalse<Extends<UniqueBrand<string, 'Email'>, Brand<string, 'Email'>>>
+  ];
+}
+
+// @dts-jest:group Unbrand
+{
+  // @dts-jest:pass:snap -> number
+  testType<Unbrand<USD>>();
+  // @dts-jest:pass:snap -> string
+  testType<Unbrand<Email>>();
+  // @dts-jest:pass:snap -> "a" | "b"
+  testType<Unbrand<Brand<'a' | 'b', 'Letter'>>>();
+  // @dts-jest:pass:snap -> { name: string; }
+  testType<Unbrand<Brand<{ name: string }, 'User'>>>();
+  // @dts-jest:pass:snap -> number | undefined
+  testType<Unbrand<USD | undefined>>();
+  // @dts-jest:pass:snap -> number
+  testType<Unbrand<number>>();
+
+  type Cases = [
+    Expect<Equals<Unbrand<USD>, number>>,
+    Expect<Equals<Unbrand<Email>, string>>,
+    Expect<Equals<Unbrand<Brand<'a' | 'b', 'Letter'>>, 'a' | 'b'>>,
+    Expect<Equals<Unbrand<Brand<{ name: string }, 'User'>>, { name: string }>>,
+    Expect<Equals<Unbrand<USD | undefined>, number | undefined>>,
+    Expect<Equals<Unbrand<number>, number>>
+  ];
+}
+
+// @dts-jest:group makeBrand
+it('creates branded values', () => {
+  // @dts-jest:pass:snap -> Brand<number, "USD">
+  expectType<Brand<number, 'USD'>>()(USD.of(10));
+  // @dts-jest:pass:snap -> Brand<number, "USD"> | undefined
+  expectType<Brand<number, 'USD'> | undefined>()(USD.from(10));
+  // @dts-jest:pass:snap -> UniqueBrand<string, "Email">
+  expectType<UniqueBrand<string, 'Email'>>()(Email.of('john@example.com'));
+
+  expect(USD.of(10)).toBe(10);
+  expect(USD.from(10)).toBe(10);
+  expect(Email.from('john@example.com')).toBe('john@example.com');
+});
+
+// @dts-jest:group makeBrand - invalid values
+it('rejects invalid values', () => {
+  expect(() => USD.of(-5)).toThrow(TypeError);
+  expect(() => Email.of('john')).toThrow(
+    'Value john is not valid for the branded type'
+  );
+  expect(USD.from(NaN)).toBeUndefined();
+  expect(Email.from('john')).toBeUndefined();
+});
+
+// @dts-jest:group makeBrand - is
+it('narrows to branded type', () => {
+  const consumer = (value: number) => {
+    if (USD.is(value)) {
+      // @dts-jest:pass:snap -> Brand<number, "USD">
+      expectType<Brand<number, 'USD'>>()(value);
+      return value;
+    }
+    return USD.of(0);
+  };
+
+  expect(USD.is(10)).toBe(true);
+  expect(USD.is(-10)).toBe(false);
+  expect(consumer(-10)).toBe(0);
+});
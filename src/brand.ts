@@ -0,0 +1,88 @@
+import { Brand } from './mapped-types';
+
+declare const uniqueBrand: unique symbol;
+
+/**
+ * UniqueBrand
+ * @desc Define nominal type of `U` based on type of `T` using a `unique symbol` key,
+ * so it can't collide with the `__brand` key used by `Brand`.
+ * @example
+ *   type UserId = UniqueBrand<string, 'UserId'>;
+ *   type OrderId = UniqueBrand<string, 'OrderId'>;
+ *
+ *   const userId = 'u-1' as UserId;
+ *
+ *   // Expect: Compile error (Type '"UserId"' is not assignable to type '"OrderId"'.)
+ *   const orderId: OrderId = userId;
+ */
+export type UniqueBrand<T, U> = T & { readonly [uniqueBrand]: U };
+
+/**
+ * Unbrand
+ * @desc Get the base type `T` of a nominal type created with `Brand<T, U>` or `UniqueBrand<T, U>`
+ * @example
+ *   // Expect: number
+ *   type Amount = Unbrand<Brand<number, 'USD'>>;
+ *
+ *   // Expect: string | undefined
+ *   type MaybeId = Unbrand<UniqueBrand<string, 'UserId'> | undefined>;
+ */
+export type Unbrand<B> = B extends { __brand: infer U }
+  ? B extends Brand<infer T, U>
+    ? T
+    : never
+  : B extends { readonly [uniqueBrand]: infer V }
+  ? B extends UniqueBrand<infer T, V>
+    ? T
+    : never
+  : B;
+
+/**
+ * BrandFactory
+ * @desc Runtime constructors and type guard of nominal type `B`, created by `makeBrand`
+ */
+export interface BrandFactory<B> {
+  /** Brand the `value`, throws a `TypeError` when it is not valid */
+  of(value: Unbrand<B>): B;
+  /** Brand the `value`, returns `undefined` when it is not valid */
+  from(value: Unbrand<B>): B | undefined;
+  /** Test if the `value` is valid for nominal type `B` */
+  is(value: Unbrand<B>): value is Unbrand<B> & B;
+}
+
+/**
+ * Creates runtime constructors and a type guard for a nominal type `B` created with `Brand<T, U>` or `UniqueBrand<T, U>`.
+ * Every value is checked with the given `validate` function before it is branded.
+ *
+ * @param validate Tests if a value of the base type is valid for the nominal type
+ * @returns `of` (throws on invalid value), `from` (returns `undefined` on invalid value) and `is` type guard
+ *
+ * @example
+ *   type USD = Brand<number, 'USD'>;
+ *   const USD = makeBrand<USD>(value => Number.isFinite(value) && value >= 0);
+ *
+ *   // typeof price === USD
+ *   const price = USD.of(10);
+ *   // typeof refund === USD | undefined
+ *   const refund = USD.from(-5);
+ *   // throws TypeError
+ *   USD.of(NaN);
+ */
+export const makeBrand = <B>(
+  validate: (value: Unbrand<B>) => boolean
+): BrandFactory<B> => {
+  const is = (value: Unbrand<B>): value is Unbrand<B> & B => validate(value);
+
+  return {
+    of: value => {
+      if (!is(value)) {
+        throw new TypeError(
+          `Value ${String(value)} is not valid for the branded type`
+        );
+      }
+      return value;
+    },
+    from: value => (is(value) ? value : undefined),
+    is,
+  };
+};
@@ -0,0 +1,151 @@
+import { expectType } from './type-assertions';
+import { deepMerge, deepMergeWith } from './deep-merge';
+
+/**
+ * Fixtures
+ */
+
+type Config = {
+  server: { port: number; host: string };
+  plugins: string[];
+  verbose?: boolean;
+};
+
+const defaults: Config = {
+  server: { port: 80, host: 'localhost' },
+  plugins: ['logger'],
+};
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group deepMerge
+it('merges nested objects and replaces arrays', () => {
+  const config = deepMerge(defaults, {
+    server: { port: 8080 },
+    plugins: ['auth'],
+  });
+
+  // @dts-jest:pass:snap -> { server: { port: number; host: string; }; plugins: string[]; verbose?: boolean | undefined; }
+  expectType<{
+    server: { port: number; host: string };
+    plugins: string[];
+    verbose?: boolean;
+  }>()(config);
+
+  expect(config).toEqual({
+    server: { port: 8080, host: 'localhost' },
+    plugins: ['auth'],
+  });
+  expect(defaults).toEqual({
+    server: { port: 80, host: 'localhost' },
+    plugins: ['logger'],
+  });
+  expect(config.server).not.toBe(defaults.server);
+});
+
+// @dts-jest:group deepMerge - rest arguments
+it('merges the rest arguments from left to right', () => {
+  const config = deepMerge(
+    defaults,
+    { server: { port: 8080 } },
+    { server: { host: 'example.com' }, verbose: true }
+  );
+
+  // @dts-jest:pass:snap -> { server: { port: number; host: string; }; plugins: string[]; verbose: boolean; }
+  expectType<{
+    server: { port: number; host: string };
+    plugins: string[];
+    verbose: boolean;
+  }>()(config);
+
+  expect(config).toEqual({
+    server: { port: 8080, host: 'example.com' },
+    plugins: ['logger'],
+    verbose: true,
+  });
+});
+
+// @dts-jest:group deepMerge - undefined values
+it('keeps the previous value for undefined values', () => {
+  const overrides: { server?: { port?: number }; verbose?: boolean } = {
+    server: { port: undefined },
+    verbose: undefined,
+  };
+  const config = deepMerge(defaults, overrides);
+
+  // @dts-jest:pass:snap -> { server: { port: number; host: string; }; plugins: string[]; verbose?: boolean | undefined; }
+  expectType<{
+    server: { port: number; host: string };
+    plugins: string[];
+    verbose?: boolean;
+  }>()(config);
+
+  expect(config).toEqual(defaults);
+  expect('verbose' in config).toBe(false);
+});
+
+// @dts-jest:group deepMerge - values replacing objects
+it('replaces objects by other values', () => {
+  const date = new Date(0);
+  const config = deepMerge(
+    { server: { port: 80 }, createdAt: { year: 1970 } },
+    { server: 'localhost', createdAt: date }
+  );
+
+  // @dts-jest:pass:snap -> { server: string; createdAt: Date; }
+  expectType<{ server: string; createdAt: Date }>()(config);
+
+  expect(config).toEqual({ server: 'localhost', createdAt: date });
+  expect(config.createdAt).toBe(date);
+});
+
+// @dts-jest:group deepMerge - prototype pollution
+it('skips the prototype pollution keys', () => {
+  const payload = JSON.parse(
+    '{ "__proto__": { "polluted": true }, "nested": { "constructor": { "prototype": { "polluted": true } } } }'
+  );
+  const result = deepMerge({ nested: {} }, payload);
+
+  expect(({} as any).polluted).toBeUndefined();
+  expect(result.polluted).toBeUndefined();
+  expect(Object.keys(result)).toEqual(['nested']);
+  expect(result.nested).toEqual({});
+});
+
+// @dts-jest:group deepMergeWith - concat
+it('concatenates arrays', () => {
+  const mergeConcat = deepMergeWith({ arrays: 'concat' });
+  const config = mergeConcat(defaults, { plugins: ['auth'] });
+  const pair = mergeConcat(
+    { pair: [1, 'a'] as [number, string] },
+    {
+      pair: [true] as [boolean],
+    }
+  ).pair;
+
+  // @dts-jest:pass:snap -> string[]
+  expectType<string[]>()(config.plugins);
+  // @dts-jest:pass:snap -> [number, string, boolean]
+  expectType<[number, string, boolean]>()(pair);
+
+  expect(config.plugins).toEqual(['logger', 'auth']);
+  expect(pair).toEqual([1, 'a', true]);
+});
+
+// @dts-jest:group deepMergeWith - merge
+it('merges arrays by index', () => {
+  const mergeByIndex = deepMergeWith({ arrays: 'merge' });
+  const result = mergeByIndex(
+    { items: [{ id: 1 }, { id: 2 }] },
+    { items: [{ name: 'first' }] }
+  );
+
+  // @dts-jest:pass:snap -> ({ id: number; } | { name: string; } | { id: number; name: string; })[]
+  expectType<
+    Array<{ id: number } | { name: string } | { id: number; name: string }>
+  >()(result.items);
+
+  expect(result.items).toEqual([{ id: 1, name: 'first' }, { id: 2 }]);
+});
@@ -0,0 +1,125 @@
+import { ArrayMergeStrategy, DeepMerge } from './mapped-types';
+
+/**
+ * DeepMergeOptions
+ * @desc Options of `deepMergeWith`, `arrays` is the `ArrayMergeStrategy` used for arrays found at the same key
+ */
+export type DeepMergeOptions<S extends ArrayMergeStrategy> = { arrays: S };
+
+/** @private */
+type _DeepMergeAll<
+  T extends object[],
+  S extends ArrayMergeStrategy
+> = T extends [infer A, infer B, ...infer Rest]
+  ? A extends object
+    ? B extends object
+      ? Rest extends object[]
+        ? _DeepMergeAll<[DeepMerge<A, B, S>, ...Rest], S>
+        : never
+      : never
+    : never
+  : T[0];
+
+/** @private */
+const unsafeKeys = ['__proto__', 'constructor', 'prototype'];
+
+/** @private */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/** @private */
+const safeKeys = (value: Record<string, unknown>): string[] =>
+  Object.keys(value).filter(key => unsafeKeys.indexOf(key) === -1);
+
+/** @private */
+const mergeValues = (
+  target: unknown,
+  source: unknown,
+  arrays: ArrayMergeStrategy
+): unknown => {
+  if (source === undefined) {
+    return target === undefined
+      ? target
+      : mergeValues(undefined, target, arrays);
+  }
+  if (Array.isArray(source)) {
+    const clone = (item: unknown) => mergeValues(undefined, item, arrays);
+    if (!Array.isArray(target) || arrays === 'replace') {
+      return source.map(clone);
+    }
+    if (arrays === 'concat') {
+      return target.concat(source).map(clone);
+    }
+    const length = Math.max(target.length, source.length);
+    const merged: unknown[] = [];
+    for (let index = 0; index < length; index++) {
+      merged.push(mergeValues(target[index], source[index], arrays));
+    }
+    return merged;
+  }
+  if (isPlainObject(source)) {
+    const base = isPlainObject(target) ? target : {};
+    const merged: Record<string, unknown> = {};
+    safeKeys(base).forEach(key => {
+      merged[key] = mergeValues(undefined, base[key], arrays);
+    });
+    safeKeys(source).forEach(key => {
+      if (source[key] !== undefined) {
+        merged[key] = mergeValues(base[key], source[key], arrays);
+      }
+    });
+    return merged;
+  }
+  return source;
+};
+
+/**
+ * Creates a `deepMerge` function combining the arrays found at the same key with the given `ArrayMergeStrategy`.
+ *
+ * @param options The merge options
+ * @returns The `deepMerge` function using the given options
+ *
+ * @example
+ *   const mergeConfig = deepMergeWith({ arrays: 'concat' });
+ *
+ *   // Expect: { plugins: ['logger', 'auth'] }
+ *   mergeConfig({ plugins: ['logger'] }, { plugins: ['auth'] });
+ */
+export const deepMergeWith = <S extends ArrayMergeStrategy>({
+  arrays,
+}: DeepMergeOptions<S>) => <
+  A extends object,
+  B extends object,
+  R extends object[]
+>(
+  a: A,
+  b: B,
+  ...rest: R
+): _DeepMergeAll<[A, B, ...R], S> =>
+  [b, ...rest].reduce<unknown>(
+    (result, source) => mergeValues(result, source, arrays),
+    a
+  ) as _DeepMergeAll<[A, B, ...R], S>;
+
+/**
+ * Deeply merges the objects from left to right into a new object, the given objects are not modified and their nested objects and arrays are copied.
+ * Nested plain objects are merged, arrays are replaced (see `deepMergeWith` for the other strategies) and any other value replaces the previous one.
+ * Properties set to `undefined` keep the previous value and the `__proto__`, `constructor` and `prototype` keys are skipped to prevent prototype pollution.
+ *
+ * @param a The target object
+ * @param b The object merged into `a`
+ * @param rest The objects merged next
+ * @returns New merged object of type `DeepMerge<A, B>`
+ *
+ * @example
+ *   const defaults = { server: { port: 80, host: 'localhost' }, plugins: ['logger'] };
+ *
+ *   // Expect: { server: { port: 8080, host: 'localhost' }, plugins: ['auth'] }
+ *   deepMerge(defaults, { server: { port: 8080 }, plugins: ['auth'] });
+ */
+export const deepMerge = deepMergeWith({ arrays: 'replace' });
@@ -0,0 +1,162 @@
+import { testType } from '../utils/test-utils';
+import { Equals, Expect, expectType } from './type-assertions';
+import { TypeAssertionError } from './assertions';
+import {
+  DiscriminateUnion,
+  UnionByTag,
+  UnionTags,
+  match,
+} from './discriminated-union';
+
+/**
+ * Fixtures
+ */
+
+type Action =
+  | { type: 'ADD'; item: string }
+  | { type: 'REMOVE'; id: number }
+  | { type: 'RESET' };
+type Result =
+  | { kind: 'success'; data: string[] }
+  | { kind: 'error' | 'timeout'; message: string };
+type Shape = { tag: 1; radius: number } | { tag: 2; width: number };
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group DiscriminateUnion
+{
+  // @dts-jest:pass:snap
+  testType<DiscriminateUnion<Action, 'type', 'ADD'>>();
+  // @dts-jest:pass:snap
+  testType<DiscriminateUnion<Action, 'type', 'ADD' | 'RESET'>>();
+  // @dts-jest:pass:snap
+  testType<DiscriminateUnion<Result, 'kind', 'timeout'>>();
+  // @dts-jest:pass:snap
+  testType<DiscriminateUnion<Shape, 'tag', 2>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        DiscriminateUnion<Action, 'type', 'ADD'>,
+        { type: 'ADD'; item: string }
+      >
+    >,
+    Expect<
+      Equals<
+        DiscriminateUnion<Action, 'type', 'ADD' | 'RESET'>,
+        { type: 'ADD'; item: string } | { type: 'RESET' }
+      >
+    >,
+    Expect<
+      Equals<
+        DiscriminateUnion<Result, 'kind', 'timeout'>,
+        { kind: 'timeout' | 'error'; message: string }
+      >
+    >,
+    Expect<
+      Equals<DiscriminateUnion<Shape, 'tag', 2>, { tag: 2; width: number }>
+    >
+  ];
+}
+
+// @dts-jest:group UnionTags
+{
+  // @dts-jest:pass:snap
+  testType<UnionTags<Action, 'type'>>();
+  // @dts-jest:pass:snap
+  testType<UnionTags<Result, 'kind'>>();
+  // @dts-jest:pass:snap
+  testType<UnionTags<Shape, 'tag'>>();
+
+  type Cases = [
+    Expect<Equals<UnionTags<Action, 'type'>, 'ADD' | 'REMOVE' | 'RESET'>>,
+    Expect<Equals<UnionTags<Result, 'kind'>, 'timeout' | 'success' | 'error'>>,
+    Expect<Equals<UnionTags<Shape, 'tag'>, 1 | 2>>
+  ];
+}
+
+// @dts-jest:group UnionByTag
+{
+  // @dts-jest:pass:snap
+  testType<keyof UnionByTag<Action, 'type'>>();
+  // @dts-jest:pass:snap
+  testType<UnionByTag<Action, 'type'>['REMOVE']>();
+  // @dts-jest:pass:snap
+  testType<UnionByTag<Result, 'kind'>['error']>();
+  // @dts-jest:pass:snap
+  testType<UnionByTag<Shape, 'tag'>[1]>();
+
+  type Cases = [
+    Expect<
+      Equals<keyof UnionByTag<Action, 'type'>, 'ADD' | 'REMOVE' | 'RESET'>
+    >,
+    Expect<
+      Equals<
+        UnionByTag<Action, 'type'>['REMOVE'],
+        { type: 'REMOVE'; id: number }
+      >
+    >,
+    Expect<
+      Equals<
+        UnionByTag<Result, 'kind'>['error'],
+        { kind: 'timeout' | 'error'; message: string }
+      >
+    >,
+    Expect<Equals<UnionByTag<Shape, 'tag'>[1], { tag: 1; radius: number }>>
+  ];
+}
+
+// @dts-jest:group match
+it('calls the handler of the tag with the narrowed member', () => {
+  const reducer = (items: string[], action: Action) =>
+    match(action, 'type', {
+      ADD: ({ item }) => [...items, item],
+      REMOVE: ({ id }) => items.filter((_, index) => index !== id),
+      RESET: () => null,
+    });
+
+  // @dts-jest:pass:snap
+  expectType<string[] | null>()(reducer([], { type: 'RESET' }));
+
+  expect(reducer(['a'], { type: 'ADD', item: 'b' })).toEqual(['a', 'b']);
+  expect(reducer(['a', 'b'], { type: 'REMOVE', id: 0 })).toEqual(['b']);
+  expect(reducer(['a'], { type: 'RESET' })).toBe(null);
+});
+
+// @dts-jest:group match - fallback
+it('calls the _ fallback handler for the other tags', () => {
+  const describe = (result: Result) =>
+    match(result, 'kind', {
+      success: ({ data }) => data.length,
+      _: ({ kind }) => `${kind} failure`,
+    });
+  const area = (shape: Shape) =>
+    match(shape, 'tag', {
+      1: ({ radius }) => Math.PI * radius ** 2,
+      _: () => 0,
+    });
+
+  // @dts-jest:pass:snap
+  expectType<string | number>()(describe({ kind: 'success', data: [] }));
+
+  expect(describe({ kind: 'success', data: ['a'] })).toBe(1);
+  expect(describe({ kind: 'timeout', message: '' })).toBe('timeout failure');
+  expect(area({ tag: 1, radius: 1 })).toBe(Math.PI);
+  expect(area({ tag: 2, width: 1 })).toBe(0);
+});
+
+// @dts-jest:group match - missing handler
+it('requires a handler for every tag', () => {
+  const unsafeMatch = (action: Action) =>
+    // @ts-expect-error
+    match(action, 'type', {
+      ADD: ({ item }) => item,
+    });
+
+  expect(() => unsafeMatch({ type: 'RESET' })).toThrow(TypeAssertionError);
+  expect(() => unsafeMatch({ type: 'RESET' })).toThrow(
+    'Expected "ADD", but received "RESET"'
+  );
+});
@@ -0,0 +1,111 @@
+import { TypeAssertionError } from './assertions';
+
+/**
+ * DiscriminateUnion
+ * @desc From union type `U` get the members with discriminant property `K` matching tag `V`
+ * @example
+ *   type Action =
+ *     | { type: 'ADD'; item: string }
+ *     | { type: 'REMOVE'; id: number }
+ *     | { type: 'RESET' };
+ *
+ *   // Expect: { type: 'ADD'; item: string }
+ *   type AddAction = DiscriminateUnion<Action, 'type', 'ADD'>;
+ */
+export type DiscriminateUnion<
+  U,
+  K extends keyof U,
+  V extends U[K]
+> = U extends unknown
+  ? [Extract<U[K], V>] extends [never]
+    ? never
+    : U
+  : never;
+
+/**
+ * UnionTags
+ * @desc Get the union type of the tags of discriminant property `K` of union type `U`
+ * @example
+ *   // Expect: 'ADD' | 'REMOVE' | 'RESET'
+ *   type ActionType = UnionTags<Action, 'type'>;
+ */
+export type UnionTags<U, K extends keyof U> = U[K];
+
+/**
+ * UnionByTag
+ * @desc From union type `U` create a map from each tag of discriminant property `K` to the matching member
+ * @example
+ *   // Expect: {
+ *   //   ADD: { type: 'ADD'; item: string };
+ *   //   REMOVE: { type: 'REMOVE'; id: number };
+ *   //   RESET: { type: 'RESET' };
+ *   // }
+ *   type ActionByType = UnionByTag<Action, 'type'>;
+ */
+export type UnionByTag<U, K extends keyof U> = {
+  [V in Extract<U[K], PropertyKey>]: DiscriminateUnion<U, K, V>;
+};
+
+/**
+ * MatchHandlers
+ * @desc Handlers of `match()` for union type `U` discriminated by property `K`, either a handler for every tag
+ * or some of them and a `_` fallback handler
+ */
+export type MatchHandlers<U, K extends keyof U> =
+  | {
+      [V in Extract<U[K], PropertyKey>]: (
+        value: DiscriminateUnion<U, K, V>
+      ) => unknown;
+    }
+  | ({
+      [V in Extract<U[K], PropertyKey>]?: (
+        value: DiscriminateUnion<U, K, V>
+      ) => unknown;
+    } & { _: (value: U) => unknown });
+
+/** @private */
+type _MatchResult<H> = {
+  [P in keyof H]: H[P] extends (...args: any[]) => infer R ? R : never;
+}[keyof H];
+
+/**
+ * Calls the handler of the tag of discriminant property `key` of `value` and returns its result.
+ * The compiler requires a handler for every tag unless a `_` fallback handler is given,
+ * each handler receives the narrowed member and the return type is the union of the handlers results.
+ *
+ * @param value The member of the discriminated union
+ * @param key The discriminant property
+ * @param handlers The handlers by tag, with the optional `_` fallback handler
+ * @returns The result of the matching handler, throws a `TypeAssertionError` when there is no handler for the tag
+ *
+ * @example
+ *   // typeof state === string[]
+ *   const state = match(action, 'type', {
+ *     ADD: ({ item }) => [...items, item],
+ *     REMOVE: ({ id }) => items.filter((_, index) => index !== id),
+ *     _: () => items,
+ *   });
+ */
+export const match = <
+  U extends Record<K, PropertyKey>,
+  K extends keyof U,
+  H extends MatchHandlers<U, K>
+>(
+  value: U,
+  key: K,
+  handlers: H
+): _MatchResult<H> => {
+  const tag = value[key];
+  const handler = Object.prototype.hasOwnProperty.call(handlers, tag)
+    ? (handlers as Record<PropertyKey, (value: U) => unknown>)[tag]
+    : (handlers as { _?: (value: U) => unknown })._;
+  if (!handler) {
+    throw new TypeAssertionError(
+      Object.keys(handlers)
+        .map(handledTag => JSON.stringify(handledTag))
+        .join(' | '),
+      tag
+    );
+  }
+  return handler(value) as _MatchResult<H>;
+};
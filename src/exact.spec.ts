@@ -0,0 +1,78 @@
+import { expectType } from './type-assertions';
+import { exact, stripExcess, assertExact } from './exact';
+
+/**
+ * Fixtures
+ */
+
+type Payload = { id: number; name?: string };
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group exact
+it('returns the value unchanged', () => {
+  const payload = { id: 1, name: 'Yolo' };
+
+  // @dts-jest:pass:snap
+  expectType<Payload>()(exact<Payload>()({ id: 1 }));
+  // @dts-jest:pass:snap
+  expectType<Payload>()(exact<Payload>()(payload));
+
+  expect(exact<Payload>()(payload)).toBe(payload);
+});
+
+it('rejects the excess properties of variables and generic values', () => {
+  const payloadWithExtraKey = { id: 1, debug: true };
+  const send = <U extends Payload>(value: U) =>
+    // @ts-expect-error
+    exact<Payload>()(value);
+
+  // @ts-expect-error
+  exact<Payload>()(payloadWithExtraKey);
+
+  expect(send({ id: 1 })).toEqual({ id: 1 });
+});
+
+// @dts-jest:group stripExcess
+it('removes the excess properties', () => {
+  const payload: Payload = JSON.parse('{ "id": 1, "debug": true }');
+
+  // @dts-jest:pass:snap
+  expectType<Pick<Payload, 'id' | 'name'>>()(
+    stripExcess(payload, ['id', 'name'])
+  );
+  // @dts-jest:pass:snap
+  expectType<Pick<Payload, 'id'>>()(stripExcess(payload, ['id']));
+
+  expect(stripExcess(payload, ['id', 'name'])).toEqual({ id: 1 });
+  expect(stripExcess({ id: 1, name: 'Yolo' }, ['name'])).toEqual({
+    name: 'Yolo',
+  });
+});
+
+// @dts-jest:group assertExact
+it('throws for excess properties', () => {
+  const payload: Payload = JSON.parse('{ "id": 1, "debug": true, "x": 0 }');
+
+  expect(() => assertExact(payload, ['id', 'name'])).toThrow(TypeError);
+  expect(() => assertExact(payload, ['id', 'name'])).toThrow(
+    'Unexpected properties: debug, x'
+  );
+  expect(() => assertExact({ id: 1 }, ['id'])).not.toThrow();
+  expect(() => assertExact({}, [])).not.toThrow();
+});
+
+it('narrows the value to the listed properties', () => {
+  const payload: Payload & { debug?: boolean } = JSON.parse('{ "id": 1 }');
+
+  assertExact(payload, ['id', 'name']);
+
+  // @dts-jest:pass:snap
+  expectType<number>()(payload.id);
+  // @dts-jest:pass:snap
+  expectType<never>()(payload.debug);
+
+  expect(payload).toEqual({ id: 1 });
+});
@@ -0,0 +1,75 @@
+import { Exact } from './mapped-types';
+
+/**
+ * Creates an identity function that accepts only values of object type `T` without excess properties.
+ * Unlike the excess property check of object literals it also rejects variables and generic values.
+ *
+ * @returns Identity function returning the given `value` as `T`
+ *
+ * @example
+ *   type Payload = { id: number; name?: string };
+ *   const payload = { id: 1, debug: true };
+ *
+ *   // Expect: No compile error
+ *   exact<Payload>()({ id: 1 });
+ *   // Expect: Compile error (Type 'boolean' is not assignable to type 'never'.)
+ *   exact<Payload>()(payload);
+ */
+export const exact = <T extends object>() => <U extends T>(
+  value: U & Exact<T, U>
+): T => value;
+
+/**
+ * Creates a shallow copy of `value` containing only the own properties listed in `keys`.
+ *
+ * @param value The object to be stripped
+ * @param keys The properties to keep
+ * @returns New object without the excess properties
+ *
+ * @example
+ *   type Payload = { id: number; name?: string };
+ *   const payload: Payload = JSON.parse('{ "id": 1, "debug": true }');
+ *
+ *   // Expect: { id: 1 }
+ *   stripExcess(payload, ['id', 'name']);
+ */
+export const stripExcess = <T extends object, K extends keyof T>(
+  value: T,
+  keys: ReadonlyArray<K>
+): Pick<T, K> => {
+  const result = {} as Pick<T, K>;
+  keys.forEach(key => {
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
+      result[key] = value[key];
+    }
+  });
+  return result;
+};
+
+/**
+ * Asserts that `value` has no own properties other than the ones listed in `keys`, throws a `TypeError` listing the excess properties otherwise.
+ * Narrows `value` to the listed properties, the other properties of `T` become `never`.
+ *
+ * @param value The object to be tested
+ * @param keys The allowed properties
+ *
+ * @example
+ *   type Payload = { id: number; name?: string; debug?: boolean };
+ *   const payload: Payload = JSON.parse('{ "id": 1, "debug": true }');
+ *
+ *   // throws TypeError: Unexpected properties: debug
+ *   assertExact(payload, ['id', 'name']);
+ *   // typeof payload.debug === never
+ */
+export function assertExact<T extends object, K extends keyof T>(
+  value: T,
+  keys: ReadonlyArray<K>
+): asserts value is T & Exact<Pick<T, K>, T> {
+  const knownKeys = keys.map(String);
+  const excessKeys = Object.keys(value).filter(
+    key => knownKeys.indexOf(key) === -1
+  );
+  if (excessKeys.length > 0) {
+    throw new TypeError(`Unexpected properties: ${excessKeys.join(', ')}`);
+  }
+}
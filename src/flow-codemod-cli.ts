@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/// <reference types="node" />
+import { runFlowCodemod } from './flow-codemod';
+
+const usage = `Usage: utility-types-codemod [--dry-run] <paths...>
+
+Rewrites Flow utility types in .js and .js.flow files to TypeScript
+importing them from utility-types. The TypeScript files are written
+next to the Flow files (.js to .ts or .tsx with JSX, .js.flow to .d.ts).
+
+Options:
+  --dry-run  report the results without writing files
+  --help     show this message`;
+
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+const args = process.argv.slice(2);
+const targets = args.filter(arg => arg.indexOf('--') !== 0);
+
+if (args.indexOf('--help') !== -1 || targets.length === 0) {
+  print(usage);
+  process.exit(targets.length === 0 && args.indexOf('--help') === -1 ? 1 : 0);
+}
+
+const dryRun = args.indexOf('--dry-run') !== -1;
+const reports = runFlowCodemod(targets, { dryRun });
+let issueCount = 0;
+
+reports.forEach(({ file, outputFile, imports, issues }) => {
+  print(
+    `${dryRun ? 'Checked' : 'Written'} ${dryRun ? file : outputFile}${
+      imports.length > 0 ? ` (imports ${imports.join(', ')})` : ''
+    }`
+  );
+  issues.forEach(({ line, column, message }) =>
+    print(`  ${file}:${line}:${column} - ${message}`)
+  );
+  issueCount += issues.length;
+});
+
+print(
+  `${reports.length} file(s) processed, ${issueCount} construct(s) not translated`
+);
@@ -0,0 +1,230 @@
+/// <reference types="node" />
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getFlowCodemodOutputFile,
+  runFlowCodemod,
+  transformFlowSource,
+} from './flow-codemod';
+
+/**
+ * Fixtures
+ */
+
+const fixturesDir = path.join(__dirname, '__fixtures__', 'flow-codemod');
+
+const readFixture = (file: string) =>
+  fs.readFileSync(path.join(fixturesDir, file), 'utf8');
+
+const transformFixture = (name: string, input: string, output: string) => {
+  const result = transformFlowSource(readFixture(`${name}/${input}`));
+  expect(result.code).toBe(readFixture(`${name}/${output}`));
+  return result;
+};
+
+/**
+ * Tests
+ */
+
+it('imports the utility types and removes the pragma', () => {
+  const { imports, issues } = transformFixture(
+    'utilities',
+    'input.js',
+    'output.ts'
+  );
+
+  expect(imports).toEqual([
+    '$Call',
+    '$Diff',
+    '$ElementType',
+    '$Exact',
+    '$KeyMirror',
+    '$Keys',
+    '$NonMaybeType',
+    '$ObjMap',
+    '$ObjMapi',
+    '$PropertyType',
+    '$ReadOnly',
+    '$Rest',
+    '$Shape',
+    '$TupleMap',
+    '$Values',
+    'Class',
+    'mixed',
+  ]);
+  expect(issues).toEqual([]);
+});
+
+it('merges the names into an existing import', () => {
+  const { imports } = transformFixture('merge-import', 'input.js', 'output.ts');
+
+  expect(imports).toEqual(['$Keys', '$Values', 'mixed']);
+  expect(
+    transformFlowSource(
+      `import type { $Keys as Keys } from 'utility-types';\ntype A = $Keys<B>;\n`
+    ).code
+  ).toBe(
+    `import type { $Keys as Keys } from 'utility-types';\ntype A = $Keys<B>;\n`
+  );
+});
+
+it('inserts the import after the directive prologue', () => {
+  const { imports } = transformFixture('directive', 'input.js', 'output.ts');
+
+  expect(imports).toEqual(['$Keys', 'mixed']);
+});
+
+it('rewrites files containing JSX', () => {
+  const { imports } = transformFixture('jsx', 'input.js', 'output.tsx');
+
+  expect(imports).toEqual(['$ReadOnly']);
+});
+
+it('rewrites declaration files', () => {
+  transformFixture('declaration', 'input.js.flow', 'output.d.ts');
+});
+
+it('reports the constructs which could not be translated', () => {
+  const { issues } = transformFixture('unsupported', 'input.js', 'output.ts');
+
+  expect(issues).toEqual([
+    {
+      line: 2,
+      column: 13,
+      message: 'Exact object type `{| |}` is not supported',
+    },
+    { line: 3, column: 18, message: 'Maybe type `?T` is not supported' },
+    {
+      line: 4,
+      column: 16,
+      message: 'Flow utility type `$Subtype` is not supported',
+    },
+    { line: 5, column: 1, message: 'Opaque type alias is not supported' },
+    {
+      line: 7,
+      column: 42,
+      message: 'Predicate function `%checks` is not supported',
+    },
+    { line: 11, column: 20, message: 'Existential type `*` is not supported' },
+    {
+      line: 12,
+      column: 13,
+      message: 'Flow comment type syntax is not supported',
+    },
+    {
+      line: 14,
+      column: 17,
+      message: 'Bounded generic `<T: Bound>` is not supported',
+    },
+    {
+      line: 18,
+      column: 15,
+      message: 'Type cast `(value: Type)` is not supported',
+    },
+    {
+      line: 18,
+      column: 16,
+      message: 'Type cast `(value: Type)` is not supported',
+    },
+  ]);
+  expect(
+    transformFlowSource(
+      [
+        'const id = <T>(value: T): T => value;',
+        'const ids = values.map((value: number) => value);',
+        'const pick = (ok ? a : b);',
+        'function get<K, V>(map: Map<K, V>, key: K) {}',
+      ].join('\n')
+    ).issues
+  ).toEqual([]);
+});
+
+it('keeps the code without utility types unchanged', () => {
+  const source = `const mixed = require('./mixed');\nconst a = b < c;\n`;
+
+  expect(transformFlowSource(source)).toEqual({
+    code: source,
+    imports: [],
+    issues: [],
+  });
+  expect(transformFlowSource('/* @flow */\ntype A = mixed;\n').code).toBe(
+    `import { mixed } from 'utility-types';\n\ntype A = mixed;\n`
+  );
+});
+
+it('keeps mixed used as a value', () => {
+  const declared = `const mixed = 1;\nconst o = { key: mixed };\n`;
+  const literal = `const o = { key: mixed, nested: { key: mixed } };\n`;
+
+  expect(transformFlowSource(declared).imports).toEqual([]);
+  expect(transformFlowSource(literal).imports).toEqual([]);
+  expect(
+    transformFlowSource(
+      `type A = { key: mixed };\nfunction f(o: { key: mixed }) {}\n`
+    ).imports
+  ).toEqual(['mixed']);
+});
+
+it('maps Flow files to TypeScript files', () => {
+  expect(getFlowCodemodOutputFile('src/user.js')).toBe('src/user.ts');
+  expect(getFlowCodemodOutputFile('lib/user.js.flow')).toBe('lib/user.d.ts');
+  expect(
+    getFlowCodemodOutputFile('src/user.js', readFixture('jsx/input.js'))
+  ).toBe('src/user.tsx');
+  expect(
+    getFlowCodemodOutputFile(
+      'src/user.js',
+      'const id = <T>(value: T) => value;'
+    )
+  ).toBe('src/user.ts');
+  expect(getFlowCodemodOutputFile('src/user.js', 'const a = b < c;')).toBe(
+    'src/user.ts'
+  );
+});
+
+it('transforms the files of the given directories', () => {
+  const reports = runFlowCodemod([fixturesDir], { dryRun: true });
+
+  expect(
+    reports.map(({ file, outputFile }) => [
+      path.relative(fixturesDir, file),
+      path.relative(fixturesDir, outputFile),
+    ])
+  ).toEqual([
+    [
+      path.join('declaration', 'input.js.flow'),
+      path.join('declaration', 'input.d.ts'),
+    ],
+    [path.join('directive', 'input.js'), path.join('directive', 'input.ts')],
+    [path.join('jsx', 'input.js'), path.join('jsx', 'input.tsx')],
+    [
+      path.join('merge-import', 'input.js'),
+      path.join('merge-import', 'input.ts'),
+    ],
+    [
+      path.join('unsupported', 'input.js'),
+      path.join('unsupported', 'input.ts'),
+    ],
+    [path.join('utilities', 'input.js'), path.join('utilities', 'input.ts')],
+  ]);
+  expect(reports[0].code).toBe(readFixture('declaration/output.d.ts'));
+});
+
+it('writes the TypeScript files next to the Flow files', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flow-codemod-'));
+  const file = path.join(dir, 'user.js');
+  fs.writeFileSync(file, readFixture('utilities/input.js'));
+
+  try {
+    runFlowCodemod([file]);
+
+    expect(fs.readFileSync(path.join(dir, 'user.ts'), 'utf8')).toBe(
+      readFixture('utilities/output.ts')
+    );
+  } finally {
+    fs.unlinkSync(file);
+    fs.unlinkSync(path.join(dir, 'user.ts'));
+    fs.rmdirSync(dir);
+  }
+});
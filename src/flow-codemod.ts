@@ -0,0 +1,767 @@
+/// <reference types="node" />
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * FlowCodemodIssue
+ * @desc Flow construct which could not be translated by the codemod, with its 1-based position in the source
+ */
+export interface FlowCodemodIssue {
+  line: number;
+  column: number;
+  message: string;
+}
+
+/**
+ * FlowCodemodResult
+ * @desc Result of `transformFlowSource`, the TypeScript code with the names imported from `utility-types` and the untranslated constructs
+ */
+export interface FlowCodemodResult {
+  code: string;
+  imports: string[];
+  issues: FlowCodemodIssue[];
+}
+
+/**
+ * FlowCodemodFileReport
+ * @desc Result of the codemod for a single file, created by `runFlowCodemod`
+ */
+export interface FlowCodemodFileReport extends FlowCodemodResult {
+  file: string;
+  outputFile: string;
+}
+
+/** @private */
+type TokenType =
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'template'
+  | 'regexp'
+  | 'comment'
+  | 'punctuator';
+
+/** @private */
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+/** @private */
+interface Bracket {
+  value: string;
+  index: number;
+  literal: boolean;
+}
+
+/** @private */
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** @private */
+const utilityTypeNames = [
+  '$Call',
+  '$Diff',
+  '$ElementType',
+  '$Exact',
+  '$KeyMirror',
+  '$Keys',
+  '$NonMaybeType',
+  '$ObjMap',
+  '$ObjMapi',
+  '$PropertyType',
+  '$ReadOnly',
+  '$Rest',
+  '$Shape',
+  '$TupleMap',
+  '$Values',
+  'Class',
+];
+
+/** @private */
+const typeOperators = [':', '|', '&', '?', '=>', '{|'];
+
+/** @private */
+const regExpKeywords = [
+  'return',
+  'typeof',
+  'case',
+  'do',
+  'else',
+  'in',
+  'instanceof',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'yield',
+  'await',
+];
+
+/** @private */
+const declarationKeywords = ['const', 'let', 'var', 'function', 'class'];
+
+/** @private */
+const jsxPrefixes = [
+  '(',
+  '=',
+  'return',
+  ',',
+  '?',
+  ':',
+  '=>',
+  '&&',
+  '||',
+  '{',
+  '[',
+];
+
+/** @private */
+const multiCharPunctuators = ['=>', '{|', '|}', '...'];
+
+/** @private */
+const isIdentifierStart = (char: string) => /[A-Za-z_$]/.test(char);
+
+/** @private */
+const isRegExpAllowed = (previous: Token | undefined) =>
+  previous === undefined ||
+  (previous.type === 'punctuator' &&
+    [')', ']', '}'].indexOf(previous.value) === -1) ||
+  (previous.type === 'identifier' &&
+    regExpKeywords.indexOf(previous.value) !== -1);
+
+/** @private */
+const scanQuoted = (source: string, start: number, quote: string) => {
+  let index = start + 1;
+  while (index < source.length && source[index] !== quote) {
+    if (source[index] === '\\') {
+      index++;
+    } else if (source[index] === '\n' && quote !== '`') {
+      break;
+    }
+    index++;
+  }
+  return index + 1;
+};
+
+/** @private */
+const scanTemplate = (source: string, start: number) => {
+  let index = start + 1;
+  let depth = 0;
+  while (index < source.length && (depth > 0 || source[index] !== '`')) {
+    if (source[index] === '\\') {
+      index++;
+    } else if (source.substr(index, 2) === '${') {
+      depth++;
+      index++;
+    } else if (source[index] === '}' && depth > 0) {
+      depth--;
+    } else if (depth > 0 && /['"]/.test(source[index])) {
+      index = scanQuoted(source, index, source[index]) - 1;
+    }
+    index++;
+  }
+  return index + 1;
+};
+
+/** @private */
+const scanRegExp = (source: string, start: number) => {
+  let index = start + 1;
+  let inClass = false;
+  while (index < source.length && source[index] !== '\n') {
+    if (source[index] === '\\') {
+      index++;
+    } else if (source[index] === '[') {
+      inClass = true;
+    } else if (source[index] === ']') {
+      inClass = false;
+    } else if (source[index] === '/' && !inClass) {
+      break;
+    }
+    index++;
+  }
+  index++;
+  while (index < source.length && /\w/.test(source[index])) {
+    index++;
+  }
+  return index;
+};
+
+/** @private */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let previous: Token | undefined;
+  let index = 0;
+
+  const push = (type: TokenType, end: number) => {
+    const token = { type, value: source.slice(index, end), start: index, end };
+    tokens.push(token);
+    if (type !== 'comment') {
+      previous = token;
+    }
+    index = end;
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const next = source.substr(index, 2);
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (next === '//') {
+      const end = source.indexOf('\n', index);
+      push('comment', end === -1 ? source.length : end);
+    } else if (next === '/*') {
+      const end = source.indexOf('*/', index + 2);
+      push('comment', end === -1 ? source.length : end + 2);
+    } else if (/['"]/.test(char)) {
+      push('string', scanQuoted(source, index, char));
+    } else if (char === '`') {
+      push('template', scanTemplate(source, index));
+    } else if (isIdentifierStart(char)) {
+      let end = index + 1;
+      while (end < source.length && /[\w$]/.test(source[end])) {
+        end++;
+      }
+      push('identifier', end);
+    } else if (/\d/.test(char)) {
+      let end = index + 1;
+      while (end < source.length && /[\w.]/.test(source[end])) {
+        end++;
+      }
+      push('number', end);
+    } else if (char === '/' && isRegExpAllowed(previous)) {
+      push('regexp', scanRegExp(source, index));
+    } else {
+      const punctuator = multiCharPunctuators.filter(
+        value => source.substr(index, value.length) === value
+      )[0];
+      push('punctuator', index + (punctuator ? punctuator.length : 1));
+    }
+  }
+
+  return tokens;
+};
+
+/** @private */
+const positionOf = (source: string, offset: number) => {
+  const lines = source.slice(0, offset).split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+/** @private */
+const isTypeAliasValue = (tokens: Token[], equalsIndex: number) => {
+  let index = equalsIndex - 1;
+  if (tokens[index] && tokens[index].value === '>') {
+    let depth = 0;
+    for (; index >= 0; index--) {
+      depth +=
+        tokens[index].value === '>' ? 1 : tokens[index].value === '<' ? -1 : 0;
+      if (depth === 0) {
+        break;
+      }
+    }
+    index--;
+  }
+  return (
+    tokens[index] !== undefined &&
+    tokens[index].type === 'identifier' &&
+    tokens[index - 1] !== undefined &&
+    tokens[index - 1].value === 'type'
+  );
+};
+
+/** @private */
+const isTypeCast = (tokens: Token[], open: number, colon: number) => {
+  const before = tokens[open - 1];
+  if (
+    before !== undefined &&
+    (before.type === 'identifier'
+      ? regExpKeywords.indexOf(before.value) === -1
+      : before.type !== 'punctuator' ||
+        [')', ']', '}', '|}', '>'].indexOf(before.value) !== -1)
+  ) {
+    return false;
+  }
+  let depth = 0;
+  let close = open;
+  for (; close < tokens.length; close++) {
+    const value = tokens[close].value;
+    if (['(', '[', '{', '{|'].indexOf(value) !== -1) {
+      depth++;
+    } else if ([')', ']', '}', '|}'].indexOf(value) !== -1) {
+      depth--;
+      if (depth === 0) {
+        break;
+      }
+    } else if (value === '?' && close < colon) {
+      return false;
+    }
+  }
+  const after = tokens[close + 1];
+  const parameter =
+    colon === open + 2 ||
+    ['{', '[', '...'].indexOf(tokens[open + 1].value) !== -1;
+  return (
+    after === undefined ||
+    !(after.value === '=>' || (after.value === ':' && parameter))
+  );
+};
+
+/** @private */
+const isImportSpecifier = (tokens: Token[], index: number) => {
+  let start = index - 1;
+  while (
+    start >= 0 &&
+    tokens[start].value !== 'import' &&
+    (tokens[start].type === 'identifier' ||
+      ['{', ',', '*'].indexOf(tokens[start].value) !== -1)
+  ) {
+    start--;
+  }
+  let end = index + 1;
+  while (end < tokens.length && tokens[end].value !== 'from') {
+    end++;
+  }
+  return (
+    start >= 0 &&
+    tokens[start].value === 'import' &&
+    tokens[end + 1] !== undefined &&
+    tokens[end + 1].value.slice(1, -1) !== 'utility-types'
+  );
+};
+
+/** @private */
+const isDeclared = (tokens: Token[], name: string) =>
+  tokens.some(
+    (token, index) =>
+      token.value === name &&
+      index > 0 &&
+      (declarationKeywords.indexOf(tokens[index - 1].value) !== -1 ||
+        isImportSpecifier(tokens, index))
+  );
+
+/** @private */
+const findUtilityTypesImport = (tokens: Token[]) => {
+  for (let index = 0; index < tokens.length; index++) {
+    if (tokens[index].value !== 'import') {
+      continue;
+    }
+    const open =
+      tokens[index + 1] !== undefined && tokens[index + 1].value === 'type'
+        ? index + 2
+        : index + 1;
+    if (tokens[open] === undefined || tokens[open].value !== '{') {
+      continue;
+    }
+    let close = open;
+    while (close < tokens.length && tokens[close].value !== '}') {
+      close++;
+    }
+    const from = tokens[close + 1];
+    const module = tokens[close + 2];
+    if (
+      from !== undefined &&
+      from.value === 'from' &&
+      module !== undefined &&
+      module.type === 'string' &&
+      module.value.slice(1, -1) === 'utility-types'
+    ) {
+      return { open: tokens[open], close: tokens[close] };
+    }
+  }
+  return undefined;
+};
+
+/** @private */
+const findImportInsertion = (tokens: Token[]) => {
+  let depth = 0;
+  let insertion: number | undefined;
+  tokens.forEach((token, index) => {
+    if (token.value === '{' || token.value === '{|') {
+      depth++;
+    } else if (token.value === '}' || token.value === '|}') {
+      depth--;
+    } else if (
+      depth === 0 &&
+      token.value === 'import' &&
+      tokens[index + 1] !== undefined &&
+      tokens[index + 1].value !== '('
+    ) {
+      let end = index + 1;
+      while (
+        end < tokens.length &&
+        tokens[end].value !== ';' &&
+        !(
+          tokens[end].type === 'string' &&
+          ['from', 'import'].indexOf(tokens[end - 1].value) !== -1
+        )
+      ) {
+        end++;
+      }
+      if (tokens[end + 1] !== undefined && tokens[end + 1].value === ';') {
+        end++;
+      }
+      insertion = tokens[Math.min(end, tokens.length - 1)].end;
+    }
+  });
+  return insertion;
+};
+
+/** @private */
+const skipDirectivePrologue = (source: string, tokens: Token[]) => {
+  let index = 0;
+  while (index < tokens.length && tokens[index].type === 'string') {
+    const next = tokens[index + 1];
+    if (next !== undefined && next.value === ';') {
+      index += 2;
+    } else if (
+      next === undefined ||
+      (next.type !== 'punctuator' &&
+        source.slice(tokens[index].end, next.start).indexOf('\n') !== -1)
+    ) {
+      index += 1;
+    } else {
+      break;
+    }
+  }
+  return index;
+};
+
+/** @private */
+const removePragma = (source: string, comment: Token): Edit | undefined => {
+  if (/^(\/\/\s*@flow\b.*|\/\*\s*@flow\b[^\n]*?\*\/)$/.test(comment.value)) {
+    const whitespace = /^\s*/.exec(source.slice(comment.end));
+    return {
+      start: comment.start,
+      end: comment.end + (whitespace ? whitespace[0].length : 0),
+      text: '',
+    };
+  }
+  const match = /\n[ \t]*\*[ \t]*@flow\b[^\n]*/.exec(comment.value);
+  return match
+    ? {
+        start: comment.start + match.index,
+        end: comment.start + match.index + match[0].length,
+        text: '',
+      }
+    : undefined;
+};
+
+/**
+ * Rewrites Flow source code to TypeScript using the utility types exported by `utility-types`.
+ * Usages of `$Keys`, `$Values`, `$Diff`, `$ReadOnly`, `$ElementType`, `$PropertyType`, `$Call`, `$Shape`,
+ * `$NonMaybeType`, `$Exact`, `$Rest`, `$ObjMap`, `$ObjMapi`, `$TupleMap`, `$KeyMirror`, `Class` and `mixed` are imported from `utility-types`, merged into an existing import when present,
+ * and the `@flow` pragma is removed. Flow constructs without a translation are reported as issues and left unchanged.
+ *
+ * @param source Flow source code of a `.js` or `.js.flow` file
+ * @returns The TypeScript code, the imported names and the untranslated constructs
+ *
+ * @example
+ *   const { code, issues } = transformFlowSource('// @flow\ntype Keys = $Keys<Props>;\n');
+ *
+ *   // Expect: "import { $Keys } from 'utility-types';\n\ntype Keys = $Keys<Props>;\n"
+ *   code;
+ */
+export const transformFlowSource = (source: string): FlowCodemodResult => {
+  const tokens = tokenize(source);
+  const code = tokens.filter(token => token.type !== 'comment');
+  const edits: Edit[] = [];
+  const issues: FlowCodemodIssue[] = [];
+  const imports: string[] = [];
+  const brackets: Bracket[] = [];
+  const mixedDeclared = isDeclared(code, 'mixed');
+  const header = code[skipDirectivePrologue(source, code)];
+
+  const report = (token: Token, message: string) =>
+    issues.push({ ...positionOf(source, token.start), message });
+  const use = (name: string) => {
+    if (imports.indexOf(name) === -1) {
+      imports.push(name);
+    }
+  };
+
+  tokens.forEach(token => {
+    if (token.type !== 'comment' || (header && token.start > header.start)) {
+      return;
+    }
+    const edit = removePragma(source, token);
+    if (edit) {
+      edits.push(edit);
+    }
+  });
+
+  tokens.forEach(token => {
+    if (token.type === 'comment' && /^\/\*(::|:)/.test(token.value)) {
+      report(token, 'Flow comment type syntax is not supported');
+    }
+  });
+
+  code.forEach((token, index) => {
+    const previous = code[index - 1];
+    const next = code[index + 1];
+    const previousValue = previous ? previous.value : '';
+    const nextValue = next ? next.value : '';
+    const enclosing = brackets[brackets.length - 1];
+    const inTypeArguments = enclosing !== undefined && enclosing.value === '<';
+    const inTypePosition =
+      typeOperators.indexOf(previousValue) !== -1 ||
+      previousValue === '<' ||
+      (previousValue === ',' && inTypeArguments) ||
+      (previousValue === '=' && isTypeAliasValue(code, index - 1));
+    const inObjectLiteral =
+      enclosing !== undefined && enclosing.value === '{' && enclosing.literal;
+
+    if (token.type === 'punctuator') {
+      if (token.value === '<' && previous && previous.type === 'identifier') {
+        brackets.push({ value: '<', index, literal: false });
+      } else if (token.value === '>' && inTypeArguments) {
+        brackets.pop();
+      } else if (token.value === '{') {
+        brackets.push({
+          value: '{',
+          index,
+          literal:
+            (previousValue === ':' && inObjectLiteral) ||
+            (['(', '[', ','].indexOf(previousValue) !== -1 &&
+              !inTypeArguments &&
+              enclosing !== undefined &&
+              enclosing.literal) ||
+            (!inTypePosition &&
+              ['=', 'return', '...', '||', '&&'].indexOf(previousValue) !== -1),
+        });
+      } else if (['(', '[', '{|'].indexOf(token.value) !== -1) {
+        brackets.push({
+          value: token.value,
+          index,
+          literal: token.value !== '{|' && !inTypePosition,
+        });
+      } else if ([')', ']', '}', '|}'].indexOf(token.value) !== -1) {
+        while (brackets.length > 0 && brackets.pop()!.value === '<') {
+          // drop comparison operators mistaken for type arguments
+        }
+      }
+
+      if (token.value === '{|') {
+        report(token, 'Exact object type `{| |}` is not supported');
+      } else if (
+        token.value === '?' &&
+        inTypePosition &&
+        next !== undefined &&
+        (next.type === 'identifier' ||
+          ['{', '(', '['].indexOf(nextValue) !== -1)
+      ) {
+        report(token, 'Maybe type `?T` is not supported');
+      } else if (
+        token.value === ':' &&
+        previous !== undefined &&
+        previous.type === 'identifier' &&
+        index > 1 &&
+        (code[index - 2].value === '<' ||
+          (code[index - 2].value === ',' && inTypeArguments))
+      ) {
+        report(token, 'Bounded generic `<T: Bound>` is not supported');
+      } else if (
+        token.value === ':' &&
+        enclosing !== undefined &&
+        enclosing.value === '(' &&
+        isTypeCast(code, enclosing.index, index)
+      ) {
+        report(
+          code[enclosing.index],
+          'Type cast `(value: Type)` is not supported'
+        );
+      } else if (token.value === '%' && nextValue === 'checks') {
+        report(token, 'Predicate function `%checks` is not supported');
+      } else if (
+        token.value === '*' &&
+        (previousValue === '<' || (previousValue === ',' && inTypeArguments)) &&
+        (nextValue === '>' || nextValue === ',')
+      ) {
+        report(token, 'Existential type `*` is not supported');
+      }
+      return;
+    }
+
+    if (token.type !== 'identifier' || previousValue === '.') {
+      return;
+    }
+
+    if (nextValue === '<' && utilityTypeNames.indexOf(token.value) !== -1) {
+      use(token.value);
+    } else if (
+      token.value === 'mixed' &&
+      !mixedDeclared &&
+      ['(', '.'].indexOf(nextValue) === -1 &&
+      inTypePosition &&
+      !(previousValue === ':' && inObjectLiteral)
+    ) {
+      use(token.value);
+    } else if (token.value[0] === '$' && nextValue === '<') {
+      report(token, `Flow utility type \`${token.value}\` is not supported`);
+    } else if (token.value === 'declare' && nextValue === 'export') {
+      edits.push({ start: token.start, end: next.end, text: 'export declare' });
+    } else if (token.value === 'opaque' && nextValue === 'type') {
+      report(token, 'Opaque type alias is not supported');
+    } else if (token.value === 'import' && nextValue === 'typeof') {
+      report(token, 'Import of `typeof` is not supported');
+    }
+  });
+
+  if (imports.length > 0) {
+    const existing = findUtilityTypesImport(code);
+    if (existing) {
+      const specifiers = source
+        .slice(existing.open.end, existing.close.start)
+        .split(',')
+        .map(specifier => specifier.trim())
+        .filter(specifier => specifier !== '');
+      const importedNames = specifiers.map(
+        specifier => specifier.split(/\s+/)[0]
+      );
+      const names = imports
+        .filter(name => importedNames.indexOf(name) === -1)
+        .sort();
+      if (names.length > 0) {
+        edits.push({
+          start: existing.open.end,
+          end: existing.close.start,
+          text: ` ${specifiers.concat(names).join(', ')} `,
+        });
+      }
+    } else {
+      const declaration = `import { ${imports
+        .slice()
+        .sort()
+        .join(', ')} } from 'utility-types';`;
+      const insertion = findImportInsertion(code);
+      edits.push(
+        insertion !== undefined
+          ? { start: insertion, end: insertion, text: `\n${declaration}` }
+          : header !== undefined
+          ? {
+              start: header.start,
+              end: header.start,
+              text: `${declaration}\n\n`,
+            }
+          : {
+              start: source.length,
+              end: source.length,
+              text: `${declaration}\n`,
+            }
+      );
+    }
+  }
+
+  return {
+    code: edits
+      .sort((a, b) => b.start - a.start)
+      .reduce(
+        (result, edit) =>
+          result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+        source
+      ),
+    imports: imports.sort(),
+    issues: issues.sort((a, b) => a.line - b.line || a.column - b.column),
+  };
+};
+
+/** @private */
+const flowFilePattern = /\.js(\.flow)?$/;
+
+/** @private */
+const collectFlowFiles = (target: string): string[] =>
+  fs.statSync(target).isDirectory()
+    ? fs
+        .readdirSync(target)
+        .sort()
+        .filter(name => name !== 'node_modules' && name[0] !== '.')
+        .reduce<string[]>(
+          (files, name) =>
+            files.concat(collectFlowFiles(path.join(target, name))),
+          []
+        )
+    : flowFilePattern.test(target)
+    ? [target]
+    : [];
+
+/** @private */
+const containsJsx = (source: string) => {
+  const code = tokenize(source).filter(token => token.type !== 'comment');
+  return code.some((token, index) => {
+    const previous = code[index - 1];
+    if (
+      token.value !== '<' ||
+      (previous !== undefined && jsxPrefixes.indexOf(previous.value) === -1)
+    ) {
+      return false;
+    }
+    if (code[index + 1] !== undefined && code[index + 1].value === '>') {
+      return true;
+    }
+    let end = index + 1;
+    while (
+      code[end + 2] !== undefined &&
+      code[end + 1].value === '.' &&
+      code[end + 2].type === 'identifier'
+    ) {
+      end += 2;
+    }
+    const name = code[end];
+    const next = code[end + 1];
+    return (
+      name !== undefined &&
+      name.type === 'identifier' &&
+      next !== undefined &&
+      (next.type === 'identifier' ||
+        ['/', '{'].indexOf(next.value) !== -1 ||
+        (next.value === '>' &&
+          (code[end + 2] === undefined || code[end + 2].value !== '(')))
+    );
+  });
+};
+
+/**
+ * Get the path of the TypeScript file created from a Flow file, `.js` becomes `.ts` (`.tsx` when `source` contains JSX)
+ * and `.js.flow` becomes `.d.ts`.
+ *
+ * @param file Path of the `.js` or `.js.flow` file
+ * @param source Flow source code of the file
+ * @returns Path of the TypeScript file
+ */
+export const getFlowCodemodOutputFile = (file: string, source: string = '') =>
+  file.replace(flowFilePattern, extension =>
+    extension === '.js.flow' ? '.d.ts' : containsJsx(source) ? '.tsx' : '.ts'
+  );
+
+/**
+ * Runs `transformFlowSource` on every `.js` and `.js.flow` file of the given files and directories (`node_modules` are skipped),
+ * and writes the TypeScript files next to them unless `dryRun` is set. It works only with local files.
+ *
+ * @param targets Paths of files and directories
+ * @param options `dryRun` reports the results without writing files
+ * @returns Report of every transformed file
+ */
+export const runFlowCodemod = (
+  targets: string[],
+  options: { dryRun?: boolean } = {}
+): FlowCodemodFileReport[] =>
+  targets
+    .reduce<string[]>(
+      (files, target) => files.concat(collectFlowFiles(target)),
+      []
+    )
+    .map(file => {
+      const source = fs.readFileSync(file, 'utf8');
+      const outputFile = getFlowCodemodOutputFile(file, source);
+      const result = transformFlowSource(source);
+      if (!options.dryRun) {
+        fs.writeFileSync(outputFile, result.code);
+      }
+      return { file, outputFile, ...result };
+    });
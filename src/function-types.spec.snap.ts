@@ -0,0 +1,439 @@
+import { testType } from '../utils/test-utils';
+import {
+  AppendParameter,
+  Arity,
+  Curried,
+  DropFirstParameter,
+  IsAsyncFunction,
+  OverloadedParameters,
+  OverloadedReturnType,
+  Overloads,
+  PrependParameter,
+  Promisified,
+  ReplaceReturnType,
+  ReturnTypeFor,
+  Uncurried,
+  curry,
+} from './function-types';
+import { Equals, Expect, Extends, expectType } from './type-assertions';
+
+/**
+ * Fixtures
+ */
+
+type ReadFile = (
+  path: string,
+  callback: (error: Error | null, data?: string) => void
+) => void;
+type GetUser = (
+  id: number,
+  callback: (error: Error | null, user: { id: number }) => void
+) => void;
+type Unlink = (path: string, callback: (error?: Error) => void) => void;
+type Greet = (name: string, age: number) => boolean;
+type GreetOptional = (name: string, age?: number) => boolean;
+type GreetRest = (name: string, ...ages: number[]) => boolean;
+type Reduce = number[]['reduce'];
+type Variadic = (...args: unknown[]) => unknown;
+type ReduceCallback = (
+  previousValue: number,
+  currentValue: number,
+  currentIndex: number,
+  array: number[]
+) => number;
+interface Lookup {
+  (key: 'a'): 1;
+  (key: 'b'): 2;
+  (key: 'c'): 3;
+  (key: 'd'): 4;
+  (key: 'e'): 5;
+  (key: 'f'): 6;
+  (key: 'g'): 7;
+  (key: 'h'): 8;
+}
+
+declare function parse(value: string): number;
+declare function parse(value: string, radix: number): string;
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group Promisified
+{
+  // @dts-jest:pass:snap -> (path: string) => Promise<string>
+  testType<Promisified<ReadFile>>();
+  // @dts-jest:pass:snap -> (id: number) => Promise<{ id: number; }>
+  testType<Promisified<GetUser>>();
+  // @dts-jest:pass:snap -> (path: string) => Promise<void>
+  testType<Promisified<Unlink>>();
+  // @dts-jest:pass:snap -> () => Promise<void>
+  testType<Promisified<(callback: (error: Error | null) => void) => void>>();
+
+  type Cases = [
+    Expect<Equals<Promisified<ReadFile>, (path: string) => Promise<string>>>,
+    Expect<
+      Equals<Promisified<GetUser>, (id: number) => Promise<{ id: number }>>
+    >,
+    Expect<Equals<Promisified<Unlink>, (path: string) => Promise<void>>>,
+    Expect<
+      Equals<
+        Promisified<(callback: (error: Error | null) => void) => void>,
+        () => Promise<void>
+      >
+    >
+  ];
+}
+
+// @dts-jest:group Curried
+{
+  // @dts-jest:pass:snap -> (arg: string) => (arg: number) => boolean
+  testType<Curried<Greet>>();
+  // @dts-jest:pass:snap -> (arg: string) => (arg: number | undefined) => boolean
+  testType<Curried<GreetOptional>>();
+  // @dts-jest:pass:snap -> (arg: string) => boolean
+  testType<Curried<GreetRest>>();
+  // @dts-jest:pass:snap -> () => boolean
+  testType<Curried<() => boolean>>();
+
+  type Cases = [
+    Expect<Equals<Curried<Greet>, (name: string) => (age: number) => boolean>>,
+    Expect<
+      Equals<
+        Curried<GreetOptional>,
+        (name: string) => (age: number | undefined) => boolean
+      >
+    >,
+    Expect<Equals<Curried<GreetRest>, (name: string) => boolean>>,
+    Expect<Equals<Curried<() => boolean>, () => boolean>>
+  ];
+}
+
+// @dts-jest:group Uncurried
+{
+  // @dts-jest:pass:snap -> (name: string, age: number) => boolean
+  testType<Uncurried<(name: string) => (age: number) => boolean>>();
+  // @dts-jest:pass:snap -> (arg: string, arg: number) => boolean
+  testType<Uncurried<Curried<Greet>>>();
+  // @dts-jest:pass:snap -> Greet
+  testType<Uncurried<Greet>>();
+  // @dts-jest:pass:snap -> () => boolean
+  testType<Uncurried<() => boolean>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        Uncurried<(name: string) => (age: number) => boolean>,
+        (name: string, age: number) => boolean
+      >
+    >,
+    Expect<Equals<Uncurried<Curried<Greet>>, Greet>>,
+    Expect<Equals<Uncurried<Greet>, Greet>>,
+    Expect<Equals<Uncurried<() => boolean>, () => boolean>>
+  ];
+}
+
+// @dts-jest:group PrependParameter
+{
+  // @dts-jest:pass:snap -> (args_0: Date, args_1: string, args_2: number) => boolean
+  testType<PrependParameter<Greet, Date>>();
+  // @dts-jest:pass:snap -> (args_0: Date, args_1: string, ...args_2: number[]) => boolean
+  testType<PrependParameter<GreetRest, Date>>();
+  // @dts-jest:pass:snap -> (args_0: Date) => void
+  testType<PrependParameter<() => void, Date>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        PrependParameter<Greet, Date>,
+        (date: Date, name: string, age: number) => boolean
+      >
+    >,
+    Expect<
+      Equals<
+        PrependParameter<GreetRest, Date>,
+        (date: Date, name: string, ...ages: number[]) => boolean
+      >
+    >,
+    Expect<Equals<PrependParameter<() => void, Date>, (date: Date) => void>>
+  ];
+}
+
+// @dts-jest:group AppendParameter
+{
+  // @dts-jest:pass:snap -> (args_0: string, args_1: number, args_2: Date) => boolean
+  testType<AppendParameter<Greet, Date>>();
+  // @dts-jest:pass:snap -> (args_0: string, args_1: number | undefined, args_2: Date) => boolean
+  testType<AppendParameter<GreetOptional, Date>>();
+  // @dts-jest:pass:snap -> (args_0: Date) => void
+  testType<AppendParameter<() => void, Date>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        AppendParameter<Greet, Date>,
+        (name: string, age: number, date: Date) => boolean
+      >
+    >,
+    Expect<
+      Equals<
+        AppendParameter<GreetOptional, Date>,
+        (name: string, age: number | undefined, date: Date) => boolean
+      >
+    >,
+    Expect<Equals<AppendParameter<() => void, Date>, (date: Date) => void>>
+  ];
+}
+
+// @dts-jest:group DropFirstParameter
+{
+  // @dts-jest:pass:snap -> (age: number) => boolean
+  testType<DropFirstParameter<Greet>>();
+  // @dts-jest:pass:snap -> (...args: number[]) => boolean
+  testType<DropFirstParameter<GreetRest>>();
+  // @dts-jest:pass:snap -> () => void
+  testType<DropFirstParameter<() => void>>();
+
+  type Cases = [
+    Expect<Equals<DropFirstParameter<Greet>, (age: number) => boolean>>,
+    Expect<
+      Equals<DropFirstParameter<GreetRest>, (...ages: number[]) => boolean>
+    >,
+    Expect<Equals<DropFirstParameter<() => void>, () => void>>
+  ];
+}
+
+// @dts-jest:group ReplaceReturnType
+{
+  // @dts-jest:pass:snap -> (name: string, age: number) => Promise<boolean>
+  testType<ReplaceReturnType<Greet, Promise<boolean>>>();
+  // @dts-jest:pass:snap -> (name: string, age?: number | undefined) => void
+  testType<ReplaceReturnType<GreetOptional, void>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        ReplaceReturnType<Greet, Promise<boolean>>,
+        (name: string, age: number) => Promise<boolean>
+      >
+    >,
+    Expect<
+      Equals<
+        ReplaceReturnType<GreetOptional, void>,
+        (name: string, age?: number) => void
+      >
+    >
+  ];
+}
+
+// @dts-jest:group Arity
+{
+  // @dts-jest:pass:snap -> 2
+  testType<Arity<Greet>>();
+  // @dts-jest:pass:snap -> 2 | 1
+  testType<Arity<GreetOptional>>();
+  // @dts-jest:pass:snap -> number
+  testType<Arity<GreetRest>>();
+  // @dts-jest:pass:snap -> 0
+  testType<Arity<() => void>>();
+
+  type Cases = [
+    Expect<Equals<Arity<Greet>, 2>>,
+    Expect<Equals<Arity<GreetOptional>, 1 | 2>>,
+    Expect<Equals<Arity<GreetRest>, number>>,
+    Expect<Equals<Arity<() => void>, 0>>
+  ];
+}
+
+// @dts-jest:group IsAsyncFunction
+{
+  // @dts-jest:pass:snap -> true
+  testType<IsAsyncFunction<() => Promise<string>>>();
+  // @dts-jest:pass:snap -> true
+  testType<IsAsyncFunction<() => PromiseLike<void>>>();
+  // @dts-jest:pass:snap -> false
+  testType<IsAsyncFunction<() => string | Promise<string>>>();
+  // @dts-jest:pass:snap -> false
+  testType<IsAsyncFunction<Greet>>();
+  // @dts-jest:pass:snap -> false
+  testType<IsAsyncFunction<() => any>>();
+  // @dts-jest:pass:snap -> false
+  testType<IsAsyncFunction<() => never>>();
+
+  type Cases = [
+    Expect<Equals<IsAsyncFunction<() => Promise<string>>, true>>,
+    Expect<Equals<IsAsyncFunction<() => PromiseLike<void>>, true>>,
+    Expect<Equals<IsAsyncFunction<() => string | Promise<string>>, false>>,
+    Expect<Equals<IsAsyncFunction<Greet>, false>>,
+    Expect<Equals<IsAsyncFunction<() => any>, false>>,
+    Expect<Equals<IsAsyncFunction<() => never>, false>>
+  ];
+}
+
+// @dts-jest:group Overloads
+{
+  // @dts-jest:pass:snap -> [(value: string) => number, (value: string, radix: number) => string]
+  testType<Overloads<typeof parse>>();
+  // @dts-jest:pass:snap -> [(callbackfn: (previousValue: number, currentValue: number, currentIndex: number, array: number[]) => number) => number, (callbackfn: (previousValue: number, currentValue: number, currentIndex: number, array: number[]) => number, initialValue: number) => number, (callbackfn: (previousValue: unknown, currentValue: number, currentIndex: number, array: number[]) => unknown, initialValue: unknown) => unknown]
+  testType<Overloads<Reduce>>();
+  // @dts-jest:pass:snap -> [(name: string, age: number) => boolean]
+  testType<Overloads<Greet>>();
+  // @dts-jest:pass:snap -> [() => void]
+  testType<Overloads<() => void>>();
+  // @dts-jest:pass:snap -> [(value: unknown) => unknown]
+  testType<Overloads<<T>(value: T) => T>>();
+  // @dts-jest:pass:snap -> [(...args: unknown[]) => unknown]
+  testType<Overloads<Variadic>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        Overloads<typeof parse>,
+        [(value: string) => number, (value: string, radix: number) => string]
+      >
+    >,
+    Expect<
+      Equals<
+        Overloads<Reduce>,
+        [
+          (callbackfn: ReduceCallback) => number,
+          (callbackfn: ReduceCallback, initialValue: number) => number,
+          (
+            callbackfn: (
+              previousValue: unknown,
+              currentValue: number,
+              currentIndex: number,
+              array: number[]
+            ) => unknown,
+            initialValue: unknown
+          ) => unknown
+        ]
+      >
+    >,
+    Expect<Equals<Overloads<Lookup>['length'], 8>>,
+    Expect<Equals<Overloads<Lookup>[0], (key: 'a') => 1>>,
+    Expect<Equals<Overloads<Greet>, [Greet]>>,
+    Expect<Equals<Overloads<() => void>, [() => void]>>,
+    Expect<
+      Equals<Overloads<<T>(value: T) => T>, [(value: unknown) => unknown]>
+    >,
+    Expect<Equals<Overloads<Variadic>, [Variadic]>>
+  ];
+}
+
+// @dts-jest:group OverloadedParameters
+{
+  // @dts-jest:pass:snap -> [value: string] | [value: string, radix: number]
+  testType<OverloadedParameters<typeof parse>>();
+  // @dts-jest:pass:snap -> [key: "a"] | [key: "b"] | [key: "c"] | [key: "d"] | [key: "e"] | [key: "f"] | [key: "g"] | [key: "h"]
+  testType<OverloadedParameters<Lookup>>();
+  // @dts-jest:pass:snap -> [name: string, age: number]
+  testType<OverloadedParameters<Greet>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        OverloadedParameters<typeof parse>,
+        [value: string] | [value: string, radix: number]
+      >
+    >,
+    Expect<
+      Equals<
+        OverloadedParameters<Lookup>,
+        ['a'] | ['b'] | ['c'] | ['d'] | ['e'] | ['f'] | ['g'] | ['h']
+      >
+    >,
+    Expect<Extends<[ReduceCallback, number], OverloadedParameters<Reduce>>>,
+    Expect<Equals<OverloadedParameters<Greet>, Parameters<Greet>>>
+  ];
+}
+
+// @dts-jest:group OverloadedReturnType
+{
+  // @dts-jest:pass:snap -> string | number
+  testType<OverloadedReturnType<typeof parse>>();
+  // @dts-jest:pass:snap -> 2 | 1 | 3 | 4 | 5 | 6 | 7 | 8
+  testType<OverloadedReturnType<Lookup>>();
+  // @dts-jest:pass:snap -> boolean
+  testType<OverloadedReturnType<Greet>>();
+
+  type Cases = [
+    Expect<Equals<OverloadedReturnType<typeof parse>, number | string>>,
+    Expect<Equals<OverloadedReturnType<Lookup>, 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8>>,
+    Expect<Equals<OverloadedReturnType<Reduce>, unknown>>,
+    Expect<Equals<OverloadedReturnType<Greet>, boolean>>,
+    Expect<Equals<OverloadedReturnType<Variadic>, unknown>>
+  ];
+}
+
+// @dts-jest:group ReturnTypeFor
+{
+  // @dts-jest:pass:snap -> number
+  testType<ReturnTypeFor<typeof parse, [string]>>();
+  // @dts-jest:pass:snap -> string
+  testType<ReturnTypeFor<typeof parse, [string, number]>>();
+  // @dts-jest:pass:snap -> number
+  testType<ReturnTypeFor<Reduce, [ReduceCallback]>>();
+  // @dts-jest:pass:snap -> 8
+  testType<ReturnTypeFor<Lookup, ['h']>>();
+  // @dts-jest:pass:snap -> never
+  testType<ReturnTypeFor<typeof parse, [boolean]>>();
+
+  type Cases = [
+    Expect<Equals<ReturnTypeFor<typeof parse, [string]>, number>>,
+    Expect<Equals<ReturnTypeFor<typeof parse, [string, number]>, string>>,
+    Expect<Equals<ReturnTypeFor<Reduce, [ReduceCallback]>, number>>,
+    Expect<Equals<ReturnTypeFor<Reduce, [ReduceCallback, number]>, number>>,
+    Expect<
+      Equals<
+        ReturnTypeFor<Reduce, [(acc: unknown) => unknown, string]>,
+        unknown
+      >
+    >,
+    Expect<Equals<ReturnTypeFor<Lookup, ['a']>, 1>>,
+    Expect<Equals<ReturnTypeFor<Lookup, ['h']>, 8>>,
+    Expect<Equals<ReturnTypeFor<Lookup, ['a' | 'b']>, never>>,
+    Expect<Equals<ReturnTypeFor<typeof parse, [boolean]>, never>>
+  ];
+}
+
+// @dts-jest:group curry
+it('calls the function once every parameter is given', () => {
+  const add = curry((a: number, b: number, c: number) => a + b + c);
+  const greet = curry((name: string, age?: number) =>
+    age === undefined ? `Hi ${name}` : `Hi ${name} (${age})`
+  );
+  const now = curry(() => 42);
+
+  // @dts-jest:pass:snap -> (arg: number) => (arg: number) => (arg: number) => number
+  expectType<(arg: number) => (arg: number) => (arg: number) => number>()(add);
+  // @dts-jest:pass:snap -> number
+  expectType<number>()(add(1)(2)(3));
+
+  expect(add(1)(2)(3)).toBe(6);
+  expect(add(1)(2)(5)).toBe(8);
+  expect(greet('Yolo')(undefined)).toBe('Hi Yolo');
+  expect(greet('Yolo')(99)).toBe('Hi Yolo (99)');
+  expect(now()).toBe(42);
+});
+
+it('curries up to the given arity', () => {
+  const add = curry((a: number, b: number = 1) => a + b, 2);
+  const sum = curry((...values: number[]) => values.reduce((a, b) => a + b), 3);
+  const native = new Function('a', 'b = 1', 'return a + b') as (
+    a: number,
+    b?: number
+  ) => number;
+
+  // @dts-jest:pass:snap -> (arg: number) => (arg: number | undefined) => number
+  expectType<(arg: number) => (arg: number | undefined) => number>()(add);
+  // @dts-jest:pass:snap -> (arg: number) => number
+  expectType<(arg: number) => number>()(curry(native, 1));
+
+  expect(add(1)(2)).toBe(3);
+  expect(add(1)(undefined)).toBe(2);
+  expect(sum(1)(2)(3)).toBe(6);
+  expect(native.length).toBe(1);
+  expect(curry(native)(1)).toBe(2);
+  expect(curry(native, 2)(1)(2)).toBe(3);
+});
@@ -0,0 +1,385 @@
+import { IsAny } from './mapped-types';
+import { Tail, Take } from './tuple-types';
+import { Equals } from './type-assertions';
+
+/** @private */
+type _NodeCallbackResult<C> = C extends (...args: infer P) => any
+  ? P['length'] extends 0 | 1
+    ? void
+    : P extends [any, any, ...any[]]
+    ? P[1]
+    : Exclude<P[1], undefined>
+  : never;
+
+/**
+ * Promisified
+ * @desc From function type `F` taking a Node.js style callback `(error, result) => void` as the last parameter,
+ * get the type of the function returning a `Promise` of the result instead. For overloaded functions only the last overload is used.
+ * @example
+ *   type ReadFile = (path: string, callback: (error: Error | null, data?: string) => void) => void;
+ *
+ *   // Expect: (path: string) => Promise<string>
+ *   type ReadFileAsync = Promisified<ReadFile>;
+ */
+export type Promisified<F extends (...args: any[]) => any> = F extends (
+  ...args: [...infer A, infer C]
+) => any
+  ? (...args: A) => Promise<_NodeCallbackResult<C>>
+  : never;
+
+/** @private */
+type _Curried<A extends unknown[], R> = A extends []
+  ? R
+  : A extends [infer H, ...infer T]
+  ? (arg: H) => _Curried<T, R>
+  : number extends A['length']
+  ? R
+  : A extends [unknown?, ...infer Rest]
+  ? (arg: A[0]) => _Curried<Rest, R>
+  : R;
+
+/**
+ * Curried
+ * @desc From function type `F` get the type of the curried function taking one parameter at a time.
+ * Optional parameters are curried too (pass `undefined` to skip them) and rest parameters are dropped, same as the runtime `curry`
+ * (parameters with default values are only curried when `curry` is given an explicit `arity`).
+ * @example
+ *   // Expect: (arg: string) => (arg: number) => boolean
+ *   type CurriedFn = Curried<(name: string, age: number) => boolean>;
+ */
+export type Curried<F extends (...args: any[]) => any> = F extends (
+  ...args: infer A
+) => infer R
+  ? A extends []
+    ? F
+    : _Curried<A, R>
+  : never;
+
+/**
+ * Uncurried
+ * @desc From curried function type `F` taking one parameter at a time get the type of the function taking all the parameters at once
+ * @example
+ *   // Expect: (name: string, age: number) => boolean
+ *   type Fn = Uncurried<(name: string) => (age: number) => boolean>;
+ */
+export type Uncurried<F extends (...args: any[]) => any> = F extends (
+  ...args: infer A
+) => infer R
+  ? [R] extends [(...args: any[]) => any]
+    ? Uncurried<R> extends (...args: infer RA) => infer RR
+      ? (...args: [...A, ...RA]) => RR
+      : never
+    : F
+  : never;
+
+/**
+ * PrependParameter
+ * @desc From function type `F` get the type of the function with parameter of type `P` added at the start
+ * @example
+ *   // Expect: (args_0: Context, args_1: number) => string
+ *   type Handler = PrependParameter<(id: number) => string, Context>;
+ */
+export type PrependParameter<F extends (...args: any[]) => any, P> = F extends (
+  ...args: infer A
+) => infer R
+  ? (...args: [P, ...A]) => R
+  : never;
+
+/**
+ * AppendParameter
+ * @desc From function type `F` get the type of the function with parameter of type `P` added at the end, optional parameters of `F` become required
+ * @example
+ *   // Expect: (args_0: number, args_1: Options) => string
+ *   type Handler = AppendParameter<(id: number) => string, Options>;
+ */
+export type AppendParameter<F extends (...args: any[]) => any, P> = F extends (
+  ...args: infer A
+) => infer R
+  ? (...args: [...A, P]) => R
+  : never;
+
+/**
+ * DropFirstParameter
+ * @desc From function type `F` get the type of the function without the first parameter
+ * @example
+ *   // Expect: (id: number) => string
+ *   type Handler = DropFirstParameter<(context: Context, id: number) => string>;
+ */
+export type DropFirstParameter<F extends (...args: any[]) => any> = F extends (
+  ...args: infer A
+) => infer R
+  ? (...args: Tail<A>) => R
+  : never;
+
+/**
+ * ReplaceReturnType
+ * @desc From function type `F` get the type of the function returning type `R` instead
+ * @example
+ *   // Expect: (id: number) => Promise<string>
+ *   type AsyncHandler = ReplaceReturnType<(id: number) => string, Promise<string>>;
+ */
+export type ReplaceReturnType<
+  F extends (...args: any[]) => any,
+  R
+> = F extends (...args: infer A) => any ? (...args: A) => R : never;
+
+/**
+ * Arity
+ * @desc Get the number of parameters of function type `F`, a union for optional parameters and `number` for rest parameters
+ * @example
+ *   // Expect: 2
+ *   type Count = Arity<(name: string, age: number) => void>;
+ */
+export type Arity<F extends (...args: any[]) => any> = Parameters<F>['length'];
+
+/**
+ * IsAsyncFunction
+ * @desc Test if function type `F` returns a `Promise` (or another thenable), `false` when it only may return one or returns `any` or `never`
+ * @example
+ *   // Expect: true
+ *   IsAsyncFunction<() => Promise<string>>
+ *
+ *   // Expect: false
+ *   IsAsyncFunction<() => string | Promise<string>>
+ */
+export type IsAsyncFunction<F extends (...args: any[]) => any> = F extends (
+  ...args: any[]
+) => infer R
+  ? IsAny<R> extends true
+    ? false
+    : [R] extends [never]
+    ? false
+    : [R] extends [PromiseLike<unknown>]
+    ? true
+    : false
+  : never;
+
+/** @private */
+declare const padding: unique symbol;
+
+/**
+ * @private
+ * Distinct signatures added in front of the overloads so `_Signatures` always matches 8 of them, removed by `_WithoutPadding`
+ */
+type _PaddingSignatures = ((arg: typeof padding, index: 1) => typeof padding) &
+  ((arg: typeof padding, index: 2) => typeof padding) &
+  ((arg: typeof padding, index: 3) => typeof padding) &
+  ((arg: typeof padding, index: 4) => typeof padding) &
+  ((arg: typeof padding, index: 5) => typeof padding) &
+  ((arg: typeof padding, index: 6) => typeof padding) &
+  ((arg: typeof padding, index: 7) => typeof padding);
+
+/**
+ * @private
+ * Signatures of function type `F` in declaration order (the last 8 overloads)
+ */
+type _Signatures<F> = F extends {
+  (...args: infer A1): infer R1;
+  (...args: infer A2): infer R2;
+  (...args: infer A3): infer R3;
+  (...args: infer A4): infer R4;
+  (...args: infer A5): infer R5;
+  (...args: infer A6): infer R6;
+  (...args: infer A7): infer R7;
+  (...args: infer A8): infer R8;
+}
+  ? [
+      (...args: A1) => R1,
+      (...args: A2) => R2,
+      (...args: A3) => R3,
+      (...args: A4) => R4,
+      (...args: A5) => R5,
+      (...args: A6) => R6,
+      (...args: A7) => R7,
+      (...args: A8) => R8
+    ]
+  : F extends {
+      (...args: infer A1): infer R1;
+      (...args: infer A2): infer R2;
+      (...args: infer A3): infer R3;
+      (...args: infer A4): infer R4;
+      (...args: infer A5): infer R5;
+      (...args: infer A6): infer R6;
+      (...args: infer A7): infer R7;
+    }
+  ? [
+      (...args: A1) => R1,
+      (...args: A2) => R2,
+      (...args: A3) => R3,
+      (...args: A4) => R4,
+      (...args: A5) => R5,
+      (...args: A6) => R6,
+      (...args: A7) => R7
+    ]
+  : F extends {
+      (...args: infer A1): infer R1;
+      (...args: infer A2): infer R2;
+      (...args: infer A3): infer R3;
+      (...args: infer A4): infer R4;
+      (...args: infer A5): infer R5;
+      (...args: infer A6): infer R6;
+    }
+  ? [
+      (...args: A1) => R1,
+      (...args: A2) => R2,
+      (...args: A3) => R3,
+      (...args: A4) => R4,
+      (...args: A5) => R5,
+      (...args: A6) => R6
+    ]
+  : F extends {
+      (...args: infer A1): infer R1;
+      (...args: infer A2): infer R2;
+      (...args: infer A3): infer R3;
+      (...args: infer A4): infer R4;
+      (...args: infer A5): infer R5;
+    }
+  ? [
+      (...args: A1) => R1,
+      (...args: A2) => R2,
+      (...args: A3) => R3,
+      (...args: A4) => R4,
+      (...args: A5) => R5
+    ]
+  : F extends {
+      (...args: infer A1): infer R1;
+      (...args: infer A2): infer R2;
+      (...args: infer A3): infer R3;
+      (...args: infer A4): infer R4;
+    }
+  ? [
+      (...args: A1) => R1,
+      (...args: A2) => R2,
+      (...args: A3) => R3,
+      (...args: A4) => R4
+    ]
+  : F extends {
+      (...args: infer A1): infer R1;
+      (...args: infer A2): infer R2;
+      (...args: infer A3): infer R3;
+    }
+  ? [(...args: A1) => R1, (...args: A2) => R2, (...args: A3) => R3]
+  : F extends {
+      (...args: infer A1): infer R1;
+      (...args: infer A2): infer R2;
+    }
+  ? [(...args: A1) => R1, (...args: A2) => R2]
+  : F extends (...args: infer A1) => infer R1
+  ? [(...args: A1) => R1]
+  : never;
+
+/** @private */
+type _IsPadding<F> = F extends (...args: infer P) => unknown
+  ? Equals<P[0], typeof padding>
+  : false;
+
+/** @private */
+type _WithoutPadding<S extends unknown[]> = S extends [infer H, ...infer Rest]
+  ? _IsPadding<H> extends true
+    ? _WithoutPadding<Rest>
+    : S
+  : S;
+
+/** @private */
+type _MatchOverload<S, Args> = S extends [
+  (...args: infer P) => infer R,
+  ...infer Rest
+]
+  ? Args extends P
+    ? R
+    : _MatchOverload<Rest, Args>
+  : never;
+
+/**
+ * Overloads
+ * @desc From overloaded function type `F` get the tuple of its signatures in declaration order (only the last 8 overloads are kept when there are more).
+ * Type parameters of generic signatures are replaced by `unknown`.
+ * @example
+ *   declare function parse(value: string): number;
+ *   declare function parse(value: string, radix: number): string;
+ *
+ *   // Expect: [(value: string) => number, (value: string, radix: number) => string]
+ *   type Signatures = Overloads<typeof parse>;
+ */
+export type Overloads<F extends (...args: any[]) => any> = _WithoutPadding<
+  _Signatures<_PaddingSignatures & F>
+>;
+
+/**
+ * OverloadedParameters
+ * @desc From overloaded function type `F` get the union type of the parameters of every overload, unlike `Parameters` which only uses the last one
+ * @example
+ *   // Expect: [value: string] | [value: string, radix: number]
+ *   type Params = OverloadedParameters<typeof parse>;
+ */
+export type OverloadedParameters<
+  F extends (...args: any[]) => any
+> = Parameters<Overloads<F>[number]>;
+
+/**
+ * OverloadedReturnType
+ * @desc From overloaded function type `F` get the union type of the return types of every overload, unlike `ReturnType` which only uses the last one
+ * @example
+ *   // Expect: number | string
+ *   type Result = OverloadedReturnType<typeof parse>;
+ */
+export type OverloadedReturnType<
+  F extends (...args: any[]) => any
+> = ReturnType<Overloads<F>[number]>;
+
+/**
+ * ReturnTypeFor
+ * @desc From overloaded function type `F` get the return type of the first overload accepting the arguments of tuple type `Args`, `never` when none does
+ * @example
+ *   // Expect: string
+ *   type Result = ReturnTypeFor<typeof parse, [string, number]>;
+ */
+export type ReturnTypeFor<
+  F extends (...args: any[]) => any,
+  Args extends unknown[]
+> = _MatchOverload<Overloads<F>, Args>;
+
+/** @private */
+type _CurriedUpTo<
+  F extends (...args: any[]) => any,
+  N extends number
+> = number extends N
+  ? Curried<F>
+  : F extends (...args: infer A) => infer R
+  ? Curried<(...args: Take<A, N>) => R>
+  : never;
+
+/**
+ * Creates the curried version of function `fn` taking one parameter at a time, `fn` is called once `arity` parameters are given.
+ * `arity` defaults to `fn.length`, which doesn't count parameters with default values and rest parameters, pass it explicitly to curry them too.
+ *
+ * @param fn The function to be curried
+ * @param arity The number of parameters to collect before calling `fn`
+ * @returns The curried function
+ *
+ * @example
+ *   const add = curry((a: number, b: number, c: number) => a + b + c);
+ *
+ *   // Expect: 6
+ *   add(1)(2)(3);
+ *
+ *   const increment = curry((a: number, b: number = 1) => a + b, 2);
+ *
+ *   // Expect: 2
+ *   increment(1)(undefined);
+ */
+export const curry = <
+  F extends (...args: any[]) => any,
+  N extends number = number
+>(
+  fn: F,
+  arity?: N
+): _CurriedUpTo<F, N> => {
+  const length = arity === undefined ? fn.length : arity;
+  const collect = (args: unknown[]): unknown =>
+    args.length >= length
+      ? fn(...args)
+      : (arg: unknown) => collect([...args, arg]);
+
+  return (length === 0 ? fn : collect([])) as _CurriedUpTo<F, N>;
+};
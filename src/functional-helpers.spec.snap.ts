@@ -1,4 +1,25 @@
-import { getReturnOfExpression } from './functional-helpers';
+import {
+  compose,
+  flow,
+  getReturnOfExpression,
+  pipe,
+} from './functional-helpers';
+import { expectType } from './type-assertions';
+
+/**
+ * Fixtures
+ */
+
+type User = { id: string; age: number };
+
+const addOne = (x: number) => x + 1;
+const fetchUser = (id: string): Promise<User> =>
+  Promise.resolve({ id, age: 99 });
+const fetchAge = (user: User): PromiseLike<number> => Promise.resolve(user.age);
+
+/**
+ * Tests
+ */
 
 // @dts-jest:group getReturnOfExpression
 {
@@ -6,3 +27,164 @@ import { getReturnOfExpression } from './functional-helpers';
   // @dts-jest:pass:snap -> { type: "INCREMENT"; }
   getReturnOfExpression(increment); // => undefined
 }
+
+// @dts-jest:group pipe
+{
+  // @dts-jest:pass:snap -> string
+  expectType<string>()(pipe(1, x => x * 2, String)); // => '2'
+  // @dts-jest:pass:snap -> number
+  expectType<number>()(pipe(1, addOne)); // => 2
+  // @dts-jest:pass:snap -> "Yolo"
+  expectType<'Yolo'>()(pipe('Yolo' as const)); // => 'Yolo'
+}
+
+// @dts-jest:group pipe - async
+{
+  // @dts-jest:pass:snap -> Promise<number>
+  expectType<Promise<number>>()(
+    pipe('id', fetchUser, user => user.age, addOne)
+  );
+  // @dts-jest:pass:snap -> Promise<User>
+  expectType<Promise<User>>()(pipe(Promise.resolve('id'), fetchUser));
+  // @dts-jest:pass:snap -> Promise<number>
+  expectType<Promise<number>>()(pipe('id', fetchUser, fetchAge, addOne));
+}
+
+it('resolves the promises returned by the functions', async () => {
+  expect(await pipe('id', fetchUser, user => user.age, addOne)).toBe(100);
+  expect(await pipe('id', fetchUser, fetchAge, addOne)).toBe(100);
+  expect(await pipe(Promise.resolve('id'), fetchUser)).toEqual({
+    id: 'id',
+    age: 99,
+  });
+});
+
+// @dts-jest:group pipe - long chain
+{
+  const steps = pipe(
+    0,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    (x: number) => `${x}`,
+    (x: string) => x.length
+  );
+  const asyncSteps = pipe(
+    0,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    (x: number) => fetchUser(`${x}`),
+    (x: User) => x.id
+  );
+
+  // @dts-jest:pass:snap -> number
+  expectType<number>()(steps); // => 2
+  // @dts-jest:pass:snap -> Promise<string>
+  expectType<Promise<string>>()(asyncSteps);
+}
+
+// @dts-jest:group pipe - type mismatch
+{
+  // @ts-expect-error
+  pipe(1, (x: string) => x);
+  // @ts-expect-error
+  pipe('id', fetchUser, (user: string) => user);
+  pipe(
+    0,
+    // @ts-expect-error
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    (x: string) => x
+  );
+}
+
+// @dts-jest:group flow
+{
+  const formatTotal = flow(
+    (price: number, quantity: number) => price * quantity,
+    total => total.toFixed(2)
+  );
+
+  // @dts-jest:pass:snap -> (price: number, quantity: number) => string
+  expectType<(price: number, quantity: number) => string>()(formatTotal);
+  // @dts-jest:pass:snap -> (id: string) => Promise<number>
+  expectType<(id: string) => Promise<number>>()(
+    flow(fetchUser, user => user.age)
+  );
+  // @dts-jest:pass:snap -> string
+  formatTotal(2.5, 3); // => '7.50'
+
+  // @ts-expect-error
+  flow(addOne, (x: string) => x);
+}
+
+it('resolves the promises returned by the composed functions', async () => {
+  expect(await flow(fetchUser, user => user.age)('id')).toBe(99);
+});
+
+// @dts-jest:group compose
+{
+  const formatTotal = compose(
+    (total: number) => total.toFixed(2),
+    (price: number, quantity: number) => price * quantity
+  );
+
+  // @dts-jest:pass:snap -> (price: number, quantity: number) => string
+  expectType<(price: number, quantity: number) => string>()(formatTotal);
+  // @dts-jest:pass:snap -> (id: string) => Promise<number>
+  expectType<(id: string) => Promise<number>>()(
+    compose((user: User) => user.age, fetchUser)
+  );
+  // @dts-jest:pass:snap -> string
+  formatTotal(2.5, 3); // => '7.50'
+
+  const countAll = compose(
+    (x: number) => x > 10,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    addOne,
+    (...items: string[]) => items.length
+  );
+
+  // @dts-jest:pass:snap -> (...args: string[]) => boolean
+  expectType<(...items: string[]) => boolean>()(countAll);
+  // @dts-jest:pass:snap -> boolean
+  countAll('a', 'b'); // => true
+
+  // @ts-expect-error
+  compose((x: string) => x, addOne);
+}
@@ -1,5 +1,381 @@
 // Copyright (c) 2016 Piotr Witek <piotrek.witek@gmail.com> (http://piotrwitek.github.io)
 
+import { Tail } from './tuple-types';
+
+/** @private */
+type _Resolved<T> = T extends PromiseLike<infer U> ? U : T;
+
+/** @private */
+type _IsAsync<T> = T extends PromiseLike<any> ? true : false;
+
+/** @private */
+type _PipeResult<S, R> = true extends _IsAsync<S> ? Promise<_Resolved<R>> : R;
+
+/** @private */
+type _UnaryFunction = (arg: never) => unknown;
+
+/** @private */
+type _Returns<F extends unknown[]> = {
+  [K in keyof F]: F[K] extends (arg: any) => infer R ? R : never;
+};
+
+/** @private */
+type _Inputs<V, F extends unknown[]> = [V, ..._Returns<F>];
+
+/** @private */
+type _CheckedFunctions<V, F extends unknown[]> = {
+  [K in keyof F]: (
+    arg: _Resolved<_Inputs<V, F>[K & keyof _Inputs<V, F>]>
+  ) => _Returns<F>[K];
+};
+
+/** @private */
+type _ChainResult<V, F extends unknown[]> = _PipeResult<
+  _Inputs<V, F>[number],
+  _Inputs<V, F>[F['length']]
+>;
+
+/** @private */
+type _ComposeInputs<F extends unknown[]> = Tail<_Returns<F>>;
+
+/** @private */
+type _ComposedFunctions<F extends unknown[]> = {
+  [K in keyof F]: K extends keyof _ComposeInputs<F>
+    ? (arg: _Resolved<_ComposeInputs<F>[K]>) => _Returns<F>[K]
+    : F[K];
+};
+
+/** @private */
+type _ComposeResult<F extends unknown[]> = F extends [
+  ...infer _,
+  (...args: infer A) => unknown
+]
+  ? (...args: A) => _PipeResult<_Returns<F>[number], _Returns<F>[0]>
+  : never;
+
+/** @private */
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as PromiseLike<unknown>).then === 'function';
+
+/** @private */
+const chain = (value: unknown, fns: Array<(arg: any) => unknown>): unknown =>
+  fns.reduce(
+    (result, fn) => (isThenable(result) ? result.then(fn) : fn(result)),
+    value
+  );
+
+/**
+ * Passes `value` through the given functions from left to right, each function receives the result of the previous one.
+ * Every function must accept the return type of the previous one, which is checked at compile time.
+ * When a function returns a `Promise` (or another thenable) the next one receives the resolved value and the result is a `Promise` too.
+ * Above 10 functions their parameters must be annotated, their types are still checked.
+ *
+ * @param value The initial value
+ * @param fns The functions to apply
+ * @returns The value returned by the last function, a `Promise` of it when any step is asynchronous
+ *
+ * @example
+ *   // Expect: '3'
+ *   pipe(1, x => x + 2, x => String(x));
+ *
+ *   // Expect: Promise<number>
+ *   pipe('id', id => fetchUser(id), user => user.age);
+ */
+export function pipe<A>(value: A): _PipeResult<A, A>;
+export function pipe<A, B>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B
+): _PipeResult<A | B, B>;
+export function pipe<A, B, C>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C
+): _PipeResult<A | B | C, C>;
+export function pipe<A, B, C, D>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D
+): _PipeResult<A | B | C | D, D>;
+export function pipe<A, B, C, D, E>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E
+): _PipeResult<A | B | C | D | E, E>;
+export function pipe<A, B, C, D, E, F>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F
+): _PipeResult<A | B | C | D | E | F, F>;
+export function pipe<A, B, C, D, E, F, G>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G
+): _PipeResult<A | B | C | D | E | F | G, G>;
+export function pipe<A, B, C, D, E, F, G, H>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H
+): _PipeResult<A | B | C | D | E | F | G | H, H>;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H,
+  hi: (arg: _Resolved<H>) => I
+): _PipeResult<A | B | C | D | E | F | G | H | I, I>;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H,
+  hi: (arg: _Resolved<H>) => I,
+  ij: (arg: _Resolved<I>) => J
+): _PipeResult<A | B | C | D | E | F | G | H | I | J, J>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+  value: A,
+  ab: (arg: _Resolved<A>) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H,
+  hi: (arg: _Resolved<H>) => I,
+  ij: (arg: _Resolved<I>) => J,
+  jk: (arg: _Resolved<J>) => K
+): _PipeResult<A | B | C | D | E | F | G | H | I | J | K, K>;
+export function pipe<V, F extends _UnaryFunction[]>(
+  value: V,
+  ...fns: F & _CheckedFunctions<V, F>
+): _ChainResult<V, F>;
+export function pipe(
+  value: unknown,
+  ...fns: Array<(arg: any) => unknown>
+): unknown {
+  return chain(value, fns);
+}
+
+/**
+ * Creates a function passing its arguments to the first of the given functions and its result through the next ones from left to right.
+ * Only the first function can take several parameters, the types are checked the same way as `pipe`.
+ *
+ * @param fns The functions to compose
+ * @returns The composed function
+ *
+ * @example
+ *   const formatTotal = flow((price: number, quantity: number) => price * quantity, total => total.toFixed(2));
+ *
+ *   // Expect: '7.50'
+ *   formatTotal(2.5, 3);
+ */
+export function flow<A extends unknown[], B>(
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B, B>;
+export function flow<A extends unknown[], B, C>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C
+): (...args: A) => _PipeResult<B | C, C>;
+export function flow<A extends unknown[], B, C, D>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D
+): (...args: A) => _PipeResult<B | C | D, D>;
+export function flow<A extends unknown[], B, C, D, E>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E
+): (...args: A) => _PipeResult<B | C | D | E, E>;
+export function flow<A extends unknown[], B, C, D, E, F>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F
+): (...args: A) => _PipeResult<B | C | D | E | F, F>;
+export function flow<A extends unknown[], B, C, D, E, F, G>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G
+): (...args: A) => _PipeResult<B | C | D | E | F | G, G>;
+export function flow<A extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H, H>;
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H,
+  hi: (arg: _Resolved<H>) => I
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H | I, I>;
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H,
+  hi: (arg: _Resolved<H>) => I,
+  ij: (arg: _Resolved<I>) => J
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H | I | J, J>;
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K>(
+  ab: (...args: A) => B,
+  bc: (arg: _Resolved<B>) => C,
+  cd: (arg: _Resolved<C>) => D,
+  de: (arg: _Resolved<D>) => E,
+  ef: (arg: _Resolved<E>) => F,
+  fg: (arg: _Resolved<F>) => G,
+  gh: (arg: _Resolved<G>) => H,
+  hi: (arg: _Resolved<H>) => I,
+  ij: (arg: _Resolved<I>) => J,
+  jk: (arg: _Resolved<J>) => K
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H | I | J | K, K>;
+export function flow<A extends unknown[], B, F extends _UnaryFunction[]>(
+  ab: (...args: A) => B,
+  ...fns: F & _CheckedFunctions<B, F>
+): (...args: A) => _ChainResult<B, F>;
+export function flow(
+  first: (...args: any[]) => unknown,
+  ...fns: Array<(arg: any) => unknown>
+): (...args: unknown[]) => unknown {
+  return (...args) => chain(first(...args), fns);
+}
+
+/**
+ * Same as `flow` but takes the functions from right to left, the last function can take several parameters.
+ *
+ * @param fns The functions to compose
+ * @returns The composed function
+ *
+ * @example
+ *   const formatTotal = compose((total: number) => total.toFixed(2), (price: number, quantity: number) => price * quantity);
+ *
+ *   // Expect: '7.50'
+ *   formatTotal(2.5, 3);
+ */
+export function compose<A extends unknown[], B>(
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B, B>;
+export function compose<A extends unknown[], B, C>(
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C, C>;
+export function compose<A extends unknown[], B, C, D>(
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D, D>;
+export function compose<A extends unknown[], B, C, D, E>(
+  de: (arg: _Resolved<D>) => E,
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D | E, E>;
+export function compose<A extends unknown[], B, C, D, E, F>(
+  ef: (arg: _Resolved<E>) => F,
+  de: (arg: _Resolved<D>) => E,
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D | E | F, F>;
+export function compose<A extends unknown[], B, C, D, E, F, G>(
+  fg: (arg: _Resolved<F>) => G,
+  ef: (arg: _Resolved<E>) => F,
+  de: (arg: _Resolved<D>) => E,
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D | E | F | G, G>;
+export function compose<A extends unknown[], B, C, D, E, F, G, H>(
+  gh: (arg: _Resolved<G>) => H,
+  fg: (arg: _Resolved<F>) => G,
+  ef: (arg: _Resolved<E>) => F,
+  de: (arg: _Resolved<D>) => E,
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H, H>;
+export function compose<A extends unknown[], B, C, D, E, F, G, H, I>(
+  hi: (arg: _Resolved<H>) => I,
+  gh: (arg: _Resolved<G>) => H,
+  fg: (arg: _Resolved<F>) => G,
+  ef: (arg: _Resolved<E>) => F,
+  de: (arg: _Resolved<D>) => E,
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H | I, I>;
+export function compose<A extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ij: (arg: _Resolved<I>) => J,
+  hi: (arg: _Resolved<H>) => I,
+  gh: (arg: _Resolved<G>) => H,
+  fg: (arg: _Resolved<F>) => G,
+  ef: (arg: _Resolved<E>) => F,
+  de: (arg: _Resolved<D>) => E,
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H | I | J, J>;
+export function compose<A extends unknown[], B, C, D, E, F, G, H, I, J, K>(
+  jk: (arg: _Resolved<J>) => K,
+  ij: (arg: _Resolved<I>) => J,
+  hi: (arg: _Resolved<H>) => I,
+  gh: (arg: _Resolved<G>) => H,
+  fg: (arg: _Resolved<F>) => G,
+  ef: (arg: _Resolved<E>) => F,
+  de: (arg: _Resolved<D>) => E,
+  cd: (arg: _Resolved<C>) => D,
+  bc: (arg: _Resolved<B>) => C,
+  ab: (...args: A) => B
+): (...args: A) => _PipeResult<B | C | D | E | F | G | H | I | J | K, K>;
+export function compose<F extends Array<(...args: never[]) => unknown>>(
+  ...fns: F & _ComposedFunctions<F>
+): _ComposeResult<F>;
+export function compose(
+  ...fns: Array<(...args: any[]) => unknown>
+): (...args: unknown[]) => unknown {
+  const [first, ...rest] = fns.slice().reverse();
+  return (...args) => chain(first(...args), rest);
+}
+
 /**
  * @function getReturnOfExpression
  * @deprecated from TS v2.8 use built-in ReturnType<T> or $Call API
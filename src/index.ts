@@ -8,48 +8,85 @@ export {
   $Call,
   $Diff,
   $ElementType,
+  $Exact,
+  $KeyMirror,
   $Keys,
   $NonMaybeType,
+  $ObjMap,
+  $ObjMapi,
   $PropertyType,
   $ReadOnly,
+  $Rest,
   $Shape,
+  $TupleMap,
   $Values,
   Class,
+  mixed,
+  TypeMapper,
 } from './utility-types';
 
 export {
+  ArrayMergeStrategy,
   Assign,
   Brand,
+  DeepMerge,
+  DeepMutable,
   DeepNonNullable,
+  DeepNullable,
+  DeepOmit,
   DeepPartial,
+  DeepPick,
   DeepReadonly,
   DeepRequired,
+  DeepWritable,
   Diff,
+  Exact,
   FunctionKeys,
+  HasIndexSignature,
+  IndexSignatureOf,
   Intersection,
+  IsAny,
+  IsNever,
+  IsUnion,
+  IsUnknown,
+  KnownKeys,
+  LastOfUnion,
+  LeafPaths,
   Mutable,
   MutableKeys,
   NonFunctionKeys,
+  NonNullableKeys,
   NonUndefined,
+  Nullable,
+  NullableKeys,
   Omit,
   OmitByValue,
   OmitByValueExact,
+  OmitNullable,
   OptionalKeys,
   Overwrite,
   Optional,
+  OptionalPath,
+  Paths,
+  PathValue,
   PickByValue,
   PickByValueExact,
+  PickNullable,
   PromiseType,
   ReadonlyKeys,
+  RemoveIndexSignature,
   AugmentedRequired as Required,
   RequiredKeys,
+  RequiredPath,
   SetComplement,
   SetDifference,
   SetIntersection,
   Subtract,
   SymmetricDifference,
   Unionize,
+  UnionLength,
   UnionToIntersection,
+  UnionToTuple,
   ValuesType,
   Writable,
   WritableKeys,
@@ -57,13 +94,127 @@ export {
 
 export {
   Falsy,
-  Falsy as Falsey, // deprecated in v3, backward compatibility until v4
+  Falsy as Falsey, // deprecated in v3, backward compatibility until the next major release
   isFalsy,
   Nullish,
   isNullish,
+  Maybe,
   Primitive,
   isPrimitive,
+  Guard,
+  GuardType,
+  isArrayOf,
+  isRecordOf,
+  isTupleOf,
+  isOneOf,
+  isAllOf,
+  not,
+  isLiteral,
+  isShape,
 } from './aliases-and-guards';
 
+export {
+  assert,
+  assertNever,
+  assertNonNullish,
+  assertNotFalsy,
+  assertPrimitive,
+  TypeAssertionError,
+} from './assertions';
+
+export { BrandFactory, makeBrand, Unbrand, UniqueBrand } from './brand';
+
+export {
+  DiscriminateUnion,
+  MatchHandlers,
+  match,
+  UnionByTag,
+  UnionTags,
+} from './discriminated-union';
+
+export {
+  Append,
+  Concat,
+  Drop,
+  Head,
+  Indices,
+  Init,
+  Last,
+  Length,
+  Prepend,
+  Reverse,
+  Tail,
+  Take,
+  TupleToUnion,
+} from './tuple-types';
+
+export {
+  AppendParameter,
+  Arity,
+  Curried,
+  curry,
+  DropFirstParameter,
+  IsAsyncFunction,
+  OverloadedParameters,
+  OverloadedReturnType,
+  Overloads,
+  PrependParameter,
+  Promisified,
+  ReplaceReturnType,
+  ReturnTypeFor,
+  Uncurried,
+} from './function-types';
+
+export {
+  AsyncReturnType,
+  DeepAwaited,
+  PromiseProps,
+  promiseAllSettledTyped,
+  promiseProps,
+  PromiseValues,
+  SettledResult,
+} from './promise-types';
+
+export { assertExact, exact, stripExcess } from './exact';
+
+export { deepMerge, deepMergeWith, DeepMergeOptions } from './deep-merge';
+
+export {
+  assign,
+  diff,
+  intersection,
+  omit,
+  overwrite,
+  pick,
+  pickByValue,
+} from './object-helpers';
+
+export { compose, flow, pipe } from './functional-helpers';
+
+export {
+  Equals,
+  Expect,
+  ExpectFalse,
+  Extends,
+  expectNotAssignable,
+  expectType,
+} from './type-assertions';
+
+export {
+  Infer,
+  OptionalSchema,
+  Schema,
+  ValidationError,
+  ValidationResult,
+  array,
+  brand,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  union,
+} from './schema';
+
 // deprecated
 export { getReturnOfExpression } from './functional-helpers';
@@ -1,4 +1,5 @@
 import { testType } from '../utils/test-utils';
+import { Equals, Expect, ExpectFalse, Extends } from './type-assertions';
 import {
   SetIntersection,
   SetDifference,
@@ -40,7 +41,37 @@ import {
   ValuesType,
   AugmentedRequired,
   UnionToIntersection,
+  IsNever,
+  IsAny,
+  IsUnknown,
+  IsUnion,
+  LastOfUnion,
+  UnionToTuple,
+  UnionLength,
   Mutable,
+  Paths,
+  LeafPaths,
+  PathValue,
+  DeepOmit,
+  DeepPick,
+  Exact,
+  KnownKeys,
+  RemoveIndexSignature,
+  IndexSignatureOf,
+  HasIndexSignature,
+  OptionalPath,
+  RequiredPath,
+  NullableKeys,
+  NonNullableKeys,
+  PickNullable,
+  OmitNullable,
+  Nullable,
+  DeepNullable,
+  _DeepNullableArray,
+  _DeepNullableObject,
+  DeepMutable,
+  DeepWritable,
+  DeepMerge,
 } from './mapped-types';
 
 /**
@@ -56,6 +87,13 @@ type MixedProps = {
   someKeys?: string;
   someFn?: (...args: any) => any;
 };
+type IndexedProps = {
+  [key: string]: unknown;
+  readonly id: number;
+  name?: string;
+  save: () => void;
+};
+type NumericIndexedProps = { [index: number]: string; length: number };
 type ReadWriteProps = { readonly a: number; b: string };
 type RequiredOptionalProps = {
   req: number;
@@ -63,6 +101,64 @@ type RequiredOptionalProps = {
   opt?: string;
   optUndef?: string | undefined;
 };
+type NullableProps = {
+  readonly id: number;
+  name: string | null;
+  bio?: string | null;
+  avatar?: string;
+};
+declare class HttpError extends Error {
+  status: number;
+}
+type BuiltinItem = { name?: string | null };
+type BuiltinProps = {
+  map: Map<string, BuiltinItem | undefined>;
+  readonlyMap: ReadonlyMap<string, BuiltinItem | undefined>;
+  set: Set<BuiltinItem | null>;
+  readonlySet: ReadonlySet<BuiltinItem | null>;
+  promise: Promise<BuiltinItem | undefined>;
+  weakMap: WeakMap<object, BuiltinItem>;
+  weakSet: WeakSet<BuiltinItem>;
+  date: Date;
+  regExp: RegExp;
+  error: Error;
+  typeError: TypeError;
+  httpError: HttpError;
+  int8Array: Int8Array;
+  uint8Array: Uint8Array;
+  uint8ClampedArray: Uint8ClampedArray;
+  int16Array: Int16Array;
+  uint16Array: Uint16Array;
+  int32Array: Int32Array;
+  uint32Array: Uint32Array;
+  float32Array: Float32Array;
+  float64Array: Float64Array;
+  errorLike: { name: string; message: string; code: number };
+  messageLike: { name: string; message: string };
+};
+type ApiResponse = {
+  readonly user?: {
+    name: string;
+    password: string;
+    meta: { audit: { createdBy: string; createdAt: Date } };
+  };
+  items: Array<{ id: number; secret: string }>;
+  pair: readonly [{ id: number; secret: string }, string?];
+};
+type NestedState = {
+  user: { name: string; address?: { zip: string; lines: readonly string[] } };
+  items: Array<{ id: number; tags?: string[] }>;
+  pair: readonly [string, { flag: boolean }?];
+  dict: { [key: string]: { value: number | null } };
+  onChange: (value: string) => void;
+};
+type FormDraft = {
+  readonly id: number;
+  profile?: { name?: string; avatar?: { url?: string; size: number } };
+  tags: Array<{ label?: string; color: string }>;
+  pair: readonly [{ x?: number }, string];
+  created: Date;
+};
 
 /**
  * Tests
@@ -74,6 +170,18 @@ type RequiredOptionalProps = {
   testType<SetIntersection<'1' | '2' | '3', '2' | '3' | '4'>>();
   // @dts-jest:pass:snap
   testType<SetIntersection<string | number | (() => void), () => void>>();
+
+  type Cases = [
+    Expect<
+      Equals<SetIntersection<'1' | '2' | '3', '2' | '3' | '4'>, '2' | '3'>
+    >,
+    Expect<
+      Equals<
+        SetIntersection<string | number | (() => void), () => void>,
+        () => void
+      >
+    >
+  ];
 }
 
 // @dts-jest:group SetDifference
@@ -82,18 +190,36 @@ type RequiredOptionalProps = {
   testType<SetDifference<'1' | '2' | '3', '2' | '3' | '4'>>();
   // @dts-jest:pass:snap
   testType<SetDifference<string | number | (() => void), () => void>>();
+
+  type Cases = [
+    Expect<Equals<SetDifference<'1' | '2' | '3', '2' | '3' | '4'>, '1'>>,
+    Expect<
+      Equals<
+        SetDifference<string | number | (() => void), () => void>,
+        string | number
+      >
+    >
+  ];
 }
 
 // @dts-jest:group SetComplement
 {
   // @dts-jest:pass:snap
   testType<SetComplement<'1' | '2' | '3', '2' | '3'>>();
+
+  type Cases = [Expect<Equals<SetComplement<'1' | '2' | '3', '2' | '3'>, '1'>>];
 }
 
 // @dts-jest:group SymmetricDifference
 {
   // @dts-jest:pass:snap
   testType<SymmetricDifference<'1' | '2' | '3', '2' | '3' | '4'>>();
+
+  type Cases = [
+    Expect<
+      Equals<SymmetricDifference<'1' | '2' | '3', '2' | '3' | '4'>, '1' | '4'>
+    >
+  ];
 }
 
 // @dts-jest:group NonUndefined
@@ -102,42 +228,188 @@ type RequiredOptionalProps = {
   testType<NonUndefined<string | null | undefined>>();
   // @dts-jest:pass:snap
   testType<NonUndefined<undefined>>();
+
+  type Cases = [
+    Expect<Equals<NonUndefined<string | null | undefined>, string | null>>,
+    Expect<Equals<NonUndefined<undefined>, never>>
+  ];
+}
+
+// @dts-jest:group KnownKeys
+{
+  // @dts-jest:pass:snap
+  testType<KnownKeys<IndexedProps>>();
+  // @dts-jest:pass:snap
+  testType<KnownKeys<NumericIndexedProps>>();
+  // @dts-jest:pass:snap
+  testType<KnownKeys<Props>>();
+  // @dts-jest:pass:snap
+  testType<KnownKeys<Record<string, number>>>();
+
+  type Cases = [
+    Expect<Equals<KnownKeys<IndexedProps>, 'id' | 'name' | 'save'>>,
+    Expect<Equals<KnownKeys<NumericIndexedProps>, 'length'>>,
+    Expect<Equals<KnownKeys<Props>, keyof Props>>,
+    Expect<Equals<KnownKeys<Record<string, number>>, never>>
+  ];
+}
+
+// @dts-jest:group RemoveIndexSignature
+{
+  // @dts-jest:pass:snap
+  testType<RemoveIndexSignature<IndexedProps>>();
+  // @dts-jest:pass:snap
+  testType<RemoveIndexSignature<NumericIndexedProps>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        RemoveIndexSignature<IndexedProps>,
+        { readonly id: number; name?: string; save: () => void }
+      >
+    >,
+    Expect<
+      Equals<RemoveIndexSignature<NumericIndexedProps>, { length: number }>
+    >,
+    Expect<Equals<RemoveIndexSignature<Props>, Props>>,
+    Expect<Equals<RemoveIndexSignature<Record<string, number>>, {}>>
+  ];
+}
+
+// @dts-jest:group IndexSignatureOf
+{
+  // @dts-jest:pass:snap
+  testType<IndexSignatureOf<IndexedProps>>();
+  // @dts-jest:pass:snap
+  testType<IndexSignatureOf<NumericIndexedProps>>();
+  // @dts-jest:pass:snap
+  testType<IndexSignatureOf<Props>>();
+
+  type Cases = [
+    Expect<Equals<IndexSignatureOf<IndexedProps>, { [key: string]: unknown }>>,
+    Expect<
+      Equals<IndexSignatureOf<NumericIndexedProps>, { [index: number]: string }>
+    >,
+    Expect<Equals<IndexSignatureOf<Props>, {}>>
+  ];
+}
+
+// @dts-jest:group HasIndexSignature
+{
+  // @dts-jest:pass:snap
+  testType<HasIndexSignature<IndexedProps>>();
+  // @dts-jest:pass:snap
+  testType<HasIndexSignature<NumericIndexedProps>>();
+  // @dts-jest:pass:snap
+  testType<HasIndexSignature<Props>>();
+
+  type Cases = [
+    Expect<Equals<HasIndexSignature<IndexedProps>, true>>,
+    Expect<Equals<HasIndexSignature<NumericIndexedProps>, true>>,
+    Expect<Equals<HasIndexSignature<Record<string, number>>, true>>,
+    Expect<Equals<HasIndexSignature<Props>, false>>
+  ];
 }
 
 // @dts-jest:group FunctionKeys
 {
   // @dts-jest:pass:snap
   testType<FunctionKeys<MixedProps>>();
+  // @dts-jest:pass:snap
+  testType<FunctionKeys<IndexedProps>>();
+
+  type Cases = [
+    Expect<Equals<FunctionKeys<MixedProps>, 'setName' | 'someFn'>>,
+    Expect<Equals<FunctionKeys<IndexedProps>, 'save'>>
+  ];
 }
 
 // @dts-jest:group NonFunctionKeys
 {
   // @dts-jest:pass:snap
   testType<NonFunctionKeys<MixedProps>>();
+  // @dts-jest:pass:snap
+  testType<NonFunctionKeys<IndexedProps>>();
+
+  type Cases = [
+    Expect<Equals<NonFunctionKeys<MixedProps>, 'name' | 'someKeys'>>,
+    Expect<Equals<NonFunctionKeys<IndexedProps>, 'id' | 'name'>>
+  ];
 }
 
 // @dts-jest:group MutableKeys
 {
   // @dts-jest:pass:snap
   testType<MutableKeys<ReadWriteProps>>();
+
+  type Cases = [Expect<Equals<MutableKeys<ReadWriteProps>, 'b'>>];
 }
 
 // @dts-jest:group ReadonlyKeys
 {
   // @dts-jest:pass:snap
   testType<ReadonlyKeys<ReadWriteProps>>();
+
+  type Cases = [Expect<Equals<ReadonlyKeys<ReadWriteProps>, 'a'>>];
 }
 
 // @dts-jest:group RequiredKeys
 {
   // @dts-jest:pass:snap
   testType<RequiredKeys<RequiredOptionalProps>>();
+  // @dts-jest:pass:snap
+  testType<RequiredKeys<IndexedProps>>();
+
+  type Cases = [
+    Expect<Equals<RequiredKeys<RequiredOptionalProps>, 'req' | 'reqUndef'>>,
+    Expect<Equals<RequiredKeys<IndexedProps>, 'id' | 'save'>>
+  ];
 }
 
 // @dts-jest:group OptionalKeys
 {
   // @dts-jest:pass:snap
   testType<OptionalKeys<RequiredOptionalProps>>();
+  // @dts-jest:pass:snap
+  testType<OptionalKeys<IndexedProps>>();
+
+  type Cases = [
+    Expect<Equals<OptionalKeys<RequiredOptionalProps>, 'opt' | 'optUndef'>>,
+    Expect<Equals<OptionalKeys<IndexedProps>, 'name'>>
+  ];
+}
+
+// @dts-jest:group NullableKeys
+{
+  // @dts-jest:pass:snap
+  testType<NullableKeys<NullableProps>>();
+  // @dts-jest:pass:snap
+  testType<NullableKeys<IndexedProps>>();
+
+  type Cases = [
+    Expect<Equals<NullableKeys<NullableProps>, 'name' | 'bio'>>,
+    Expect<Equals<NullableKeys<IndexedProps>, never>>,
+    Expect<Equals<NullableKeys<RequiredOptionalProps>, never>>
+  ];
+}
+
+// @dts-jest:group NonNullableKeys
+{
+  // @dts-jest:pass:snap
+  testType<NonNullableKeys<NullableProps>>();
+  // @dts-jest:pass:snap
+  testType<NonNullableKeys<IndexedProps>>();
+
+  type Cases = [
+    Expect<Equals<NonNullableKeys<NullableProps>, 'id' | 'avatar'>>,
+    Expect<Equals<NonNullableKeys<IndexedProps>, 'id' | 'name' | 'save'>>,
+    Expect<
+      Equals<
+        NonNullableKeys<RequiredOptionalProps>,
+        keyof RequiredOptionalProps
+      >
+    >
+  ];
 }
 
 // @dts-jest:group PickByValue
@@ -150,11 +422,51 @@ type RequiredOptionalProps = {
   testType<PickByValue<RequiredOptionalProps, undefined>>();
   // @dts-jest:pass:snap
   testType<keyof PickByValue<RequiredOptionalProps, number>>();
+  // @dts-jest:pass:snap
+  testType<PickByValue<IndexedProps, number>>();
+  // @dts-jest:pass:snap
+  testType<PickByValue<IndexedProps, unknown>>();
 
   const fn = <T extends Props>(props: T) => {
     // @dts-jest:pass:snap
     testType<PickByValue<T, number>>();
   };
+
+  type Cases = [
+    Expect<
+      Equals<
+        PickByValue<RequiredOptionalProps, number>,
+        Pick<RequiredOptionalProps, 'req'>
+      >
+    >,
+    Expect<
+      Equals<
+        PickByValue<RequiredOptionalProps, number | undefined>,
+        Pick<RequiredOptionalProps, 'req' | 'reqUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        PickByValue<RequiredOptionalProps, undefined>,
+        Pick<RequiredOptionalProps, never>
+      >
+    >,
+    Expect<Equals<keyof PickByValue<RequiredOptionalProps, number>, 'req'>>,
+    Expect<Equals<keyof PickByValue<IndexedProps, number>, 'id'>>,
+    Expect<Equals<PickByValue<IndexedProps, number>['id'], number>>,
+    Expect<
+      Extends<
+        PickByValue<IndexedProps, unknown>,
+        { [key: string]: unknown; readonly id: number; save: () => void }
+      >
+    >,
+    Expect<
+      Extends<
+        { [key: string]: unknown; readonly id: number; save: () => void },
+        PickByValue<IndexedProps, unknown>
+      >
+    >
+  ];
 }
 
 // @dts-jest:group PickByValueExact
@@ -172,6 +484,28 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     testType<PickByValueExact<T, number>>();
   };
+
+  type Cases = [
+    Expect<
+      Equals<
+        PickByValueExact<RequiredOptionalProps, number>,
+        Pick<RequiredOptionalProps, 'req'>
+      >
+    >,
+    Expect<
+      Equals<
+        PickByValueExact<RequiredOptionalProps, number | undefined>,
+        Pick<RequiredOptionalProps, 'reqUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        PickByValueExact<RequiredOptionalProps, undefined>,
+        Pick<RequiredOptionalProps, never>
+      >
+    >,
+    Expect<Equals<keyof PickByValueExact<RequiredOptionalProps, number>, 'req'>>
+  ];
 }
 
 // @dts-jest:group Omit
@@ -180,6 +514,8 @@ type RequiredOptionalProps = {
   testType<Omit<Props, 'age'>>();
   // @dts-jest:pass:snap
   testType<Omit<Props | NewProps, 'age'>>();
+  // @dts-jest:pass:snap
+  testType<Omit<IndexedProps, 'name'>>();
 
   const fn = <T extends Props>(props: T) => {
     // @dts-jest:pass:snap
@@ -189,6 +525,27 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     const result: Omit<T, 'age'> = rest;
   };
+
+  type Cases = [
+    Expect<Equals<Omit<Props, 'age'>, Pick<Props, 'name' | 'visible'>>>,
+    Expect<
+      Equals<Omit<Props | NewProps, 'age'>, Pick<Props | NewProps, never>>
+    >,
+    Expect<Equals<Omit<IndexedProps, 'name'>['id'], number>>,
+    Expect<Equals<Omit<IndexedProps, 'name'>['save'], () => void>>,
+    Expect<
+      Extends<
+        Omit<IndexedProps, 'name'>,
+        { [key: string]: unknown; readonly id: number; save: () => void }
+      >
+    >,
+    Expect<
+      Extends<
+        { [key: string]: unknown; readonly id: number; save: () => void },
+        Omit<IndexedProps, 'name'>
+      >
+    >
+  ];
 }
 
 // @dts-jest:group OmitByValue
@@ -206,6 +563,33 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     testType<OmitByValue<T, string | boolean>>();
   };
+
+  type Cases = [
+    Expect<
+      Equals<
+        OmitByValue<RequiredOptionalProps, number>,
+        Pick<RequiredOptionalProps, 'reqUndef' | 'opt' | 'optUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        OmitByValue<RequiredOptionalProps, number | undefined>,
+        Pick<RequiredOptionalProps, 'opt' | 'optUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        OmitByValue<RequiredOptionalProps, undefined>,
+        Pick<RequiredOptionalProps, 'req' | 'reqUndef' | 'opt' | 'optUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        keyof OmitByValue<RequiredOptionalProps, number>,
+        'reqUndef' | 'opt' | 'optUndef'
+      >
+    >
+  ];
 }
 
 // @dts-jest:group OmitByValueExact
@@ -223,6 +607,65 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     testType<OmitByValueExact<T, number>>();
   };
+
+  type Cases = [
+    Expect<
+      Equals<
+        OmitByValueExact<RequiredOptionalProps, number>,
+        Pick<RequiredOptionalProps, 'reqUndef' | 'opt' | 'optUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        OmitByValueExact<RequiredOptionalProps, number | undefined>,
+        Pick<RequiredOptionalProps, 'req' | 'opt' | 'optUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        OmitByValueExact<RequiredOptionalProps, undefined>,
+        Pick<RequiredOptionalProps, 'req' | 'reqUndef' | 'opt' | 'optUndef'>
+      >
+    >,
+    Expect<
+      Equals<
+        keyof OmitByValueExact<RequiredOptionalProps, number>,
+        'reqUndef' | 'opt' | 'optUndef'
+      >
+    >
+  ];
+}
+
+// @dts-jest:group PickNullable
+{
+  // @dts-jest:pass:snap
+  testType<PickNullable<NullableProps>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        PickNullable<NullableProps>,
+        { name: string | null; bio?: string | null }
+      >
+    >,
+    Expect<Equals<PickNullable<Props>, {}>>
+  ];
+}
+
+// @dts-jest:group OmitNullable
+{
+  // @dts-jest:pass:snap
+  testType<OmitNullable<NullableProps>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        OmitNullable<NullableProps>,
+        { readonly id: number; avatar?: string }
+      >
+    >,
+    Expect<Equals<OmitNullable<Props>, Props>>
+  ];
 }
 
 // @dts-jest:group Intersection
@@ -237,6 +680,16 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     const result: Intersection<T, Omit<T, 'age'>> = rest;
   };
+
+  type Cases = [
+    Expect<Equals<Intersection<Props, DefaultProps>, Pick<Props, 'age'>>>,
+    Expect<
+      Equals<
+        Intersection<Props | NewProps, DefaultProps>,
+        Pick<Props | NewProps, 'age'>
+      >
+    >
+  ];
 }
 
 // @dts-jest:group Diff
@@ -249,6 +702,10 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     const result: Diff<T, Pick<T, 'age'>> = rest;
   };
+
+  type Cases = [
+    Expect<Equals<Diff<Props, NewProps>, Pick<Props, 'name' | 'visible'>>>
+  ];
 }
 
 // @dts-jest:group Subtract
@@ -261,6 +718,12 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     const result: Subtract<T, Pick<T, 'age'>> = rest;
   };
+
+  type Cases = [
+    Expect<
+      Equals<Subtract<Props, DefaultProps>, Pick<Props, 'name' | 'visible'>>
+    >
+  ];
 }
 
 // @dts-jest:group Overwrite
@@ -273,6 +736,18 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     const result: Overwrite<Omit<T, 'age'>, T> = rest;
   };
+
+  type Cases = [
+    Expect<
+      Equals<
+        Overwrite<Props, NewProps>,
+        Pick<
+          Pick<Props, 'name' | 'visible'> & Pick<NewProps, 'age'>,
+          'name' | 'age' | 'visible'
+        >
+      >
+    >
+  ];
 }
 
 // @dts-jest:group Assign
@@ -285,18 +760,68 @@ type RequiredOptionalProps = {
     // @dts-jest:pass:snap
     const result: Assign<{}, Omit<T, 'age'>> = rest;
   };
+
+  type Cases = [
+    Expect<
+      Equals<
+        Assign<Props, NewProps>,
+        Pick<
+          Pick<Props, 'name' | 'visible'> &
+            Pick<NewProps, 'age'> &
+            Pick<NewProps, 'other'>,
+          'name' | 'age' | 'visible' | 'other'
+        >
+      >
+    >
+  ];
+}
+
+// @dts-jest:group Exact
+{
+  // @dts-jest:pass:snap
+  testType<Exact<Props>>();
+  // @dts-jest:pass:snap
+  testType<Exact<DefaultProps, Props>['name']>();
+  // @dts-jest:pass:snap
+  testType<Exact<DefaultProps, Props>['age']>();
+  // @dts-jest:pass:snap
+  testType<Exact<Props, NewProps>['other']>();
+
+  const send = <P extends DefaultProps>(props: P & Exact<DefaultProps, P>) =>
+    props;
+  const defaultProps = { age: 99 };
+  // @dts-jest:pass:snap
+  send(defaultProps);
+
+  type Cases = [
+    Expect<Equals<Exact<Props>, Exact<Props, Props>>>,
+    Expect<Equals<Exact<DefaultProps, Props>['name'], never>>,
+    Expect<Equals<Exact<DefaultProps, Props>['age'], number>>,
+    Expect<Equals<Exact<Props, NewProps>['other'], never>>
+  ];
 }
 
 // @dts-jest:group Unionize
 {
   // @dts-jest:pass:snap
   testType<Unionize<Props>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        Unionize<Props>,
+        { name: string } | { age: number } | { visible: boolean }
+      >
+    >
+  ];
 }
 
 // @dts-jest:group PromiseType
 {
   // @dts-jest:pass:snap
   testType<PromiseType<Promise<string>>>();
+
+  type Cases = [Expect<Equals<PromiseType<Promise<string>>, string>>];
 }
 
 // @dts-jest:group DeepReadonly
@@ -346,6 +871,246 @@ type RequiredOptionalProps = {
 
   // @dts-jest:pass:snap
   testType<DeepReadonly<string | null | boolean | number | bigint | symbol>>();
+
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['map']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['readonlyMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['set']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['readonlySet']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['promise']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['weakMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['weakSet']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['date']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['regExp']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['error']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['typeError']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['httpError']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['int8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['uint8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['uint8ClampedArray']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['int16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['uint16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['int32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['uint32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['float32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['float64Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['errorLike']>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<BuiltinProps>['messageLike']>();
+
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<[string, { name: string }]>>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<readonly [string, number?]>>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<[string, ...Array<{ name: string }>]>>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<[]>>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<Array<[string, { name: string }]>>>();
+  // @dts-jest:pass:snap
+  testType<DeepReadonly<Array<[string, { name: string }]>>[number]>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        DeepReadonly<NestedProps>['first'],
+        _DeepReadonlyObject<{ second: { name: string } }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<NestedProps>['first']['second'],
+        _DeepReadonlyObject<{ name: string }>
+      >
+    >,
+    Expect<
+      Equals<DeepReadonly<NestedProps>['first']['second']['name'], string>
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<NestedArrayProps>['first'],
+        _DeepReadonlyObject<{ second: Array<{ name: string }> }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<NestedArrayProps>['first']['second'],
+        _DeepReadonlyArray<{ name: string }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<NestedArrayProps>['first']['second'][number]['name'],
+        string
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<NestedFunctionProps>['first'],
+        _DeepReadonlyObject<{ second: (value: number) => string }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<NestedFunctionProps>['first']['second'],
+        (value: number) => string
+      >
+    >,
+    Expect<
+      Equals<
+        ReturnType<DeepReadonly<NestedFunctionProps>['first']['second']>,
+        string
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<DeepReadonly<NestedProps>>,
+        _DeepReadonlyObject<{ first: { second: { name: string } } }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<DeepReadonly<NestedArrayProps>>,
+        _DeepReadonlyObject<{ first: { second: Array<{ name: string }> } }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<string | null | boolean | number | bigint | symbol>,
+        string | number | bigint | boolean | symbol | null
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['map'],
+        ReadonlyMap<
+          string,
+          _DeepReadonlyObject<{ name?: string | null | undefined }> | undefined
+        >
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['readonlyMap'],
+        ReadonlyMap<
+          string,
+          _DeepReadonlyObject<{ name?: string | null | undefined }> | undefined
+        >
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['set'],
+        ReadonlySet<_DeepReadonlyObject<{
+          name?: string | null | undefined;
+        }> | null>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['readonlySet'],
+        ReadonlySet<_DeepReadonlyObject<{
+          name?: string | null | undefined;
+        }> | null>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['promise'],
+        Promise<
+          _DeepReadonlyObject<{ name?: string | null | undefined }> | undefined
+        >
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['weakMap'],
+        WeakMap<object, BuiltinItem>
+      >
+    >,
+    Expect<Equals<DeepReadonly<BuiltinProps>['weakSet'], WeakSet<BuiltinItem>>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['date'], Date>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['regExp'], RegExp>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['error'], Error>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['typeError'], TypeError>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['httpError'], HttpError>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['int8Array'], Int8Array>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['uint8Array'], Uint8Array>>,
+    Expect<
+      Equals<DeepReadonly<BuiltinProps>['uint8ClampedArray'], Uint8ClampedArray>
+    >,
+    Expect<Equals<DeepReadonly<BuiltinProps>['int16Array'], Int16Array>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['uint16Array'], Uint16Array>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['int32Array'], Int32Array>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['uint32Array'], Uint32Array>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['float32Array'], Float32Array>>,
+    Expect<Equals<DeepReadonly<BuiltinProps>['float64Array'], Float64Array>>,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['errorLike'],
+        _DeepReadonlyObject<{ name: string; message: string; code: number }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<BuiltinProps>['messageLike'],
+        _DeepReadonlyObject<{ name: string; message: string }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<[string, { name: string }]>,
+        readonly [string, _DeepReadonlyObject<{ name: string }>]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<readonly [string, number?]>,
+        readonly [string, (number | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<[string, ...Array<{ name: string }>]>,
+        readonly [string, ...Array<_DeepReadonlyObject<{ name: string }>>]
+      >
+    >,
+    Expect<Equals<DeepReadonly<[]>, readonly []>>,
+    Expect<
+      Equals<
+        DeepReadonly<Array<[string, { name: string }]>>,
+        _DeepReadonlyArray<[string, { name: string }]>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepReadonly<Array<[string, { name: string }]>>[number],
+        readonly [string, _DeepReadonlyObject<{ name: string }>]
+      >
+    >
+  ];
 }
 
 // @dts-jest:group DeepRequired
@@ -387,6 +1152,211 @@ type RequiredOptionalProps = {
   testType<DeepRequired<NestedFunctionProps>['first']['second']>();
   // @dts-jest:pass:snap
   testType<ReturnType<DeepRequired<NestedFunctionProps>['first']['second']>>();
+
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['map']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['readonlyMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['set']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['readonlySet']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['promise']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['weakMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['weakSet']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['date']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['regExp']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['error']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['typeError']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['httpError']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['int8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['uint8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['uint8ClampedArray']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['int16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['uint16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['int32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['uint32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['float32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['float64Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<BuiltinProps>['errorLike']>();
+
+  // @dts-jest:pass:snap
+  testType<DeepRequired<[string, { name?: string }?]>>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<readonly [string, number?]>>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<[string, ...Array<number | undefined>]>>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<[]>>();
+  // @dts-jest:pass:snap
+  testType<DeepRequired<Array<[string, number?]>>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        DeepRequired<NestedProps>['first'],
+        _DeepRequiredObject<{
+          second?: { name?: string | null | undefined } | undefined;
+        }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<NestedProps>['first']['second'],
+        _DeepRequiredObject<{ name?: string | null | undefined }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<NestedProps>['first']['second']['name'],
+        string | null
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<NestedArrayProps>['first'],
+        _DeepRequiredObject<{
+          second?:
+            | Array<{ name?: string | null | undefined } | undefined>
+            | undefined;
+        }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<NestedArrayProps>['first']['second'],
+        _DeepRequiredArray<{ name?: string | null | undefined } | undefined>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<NestedArrayProps>['first']['second'][number]['name'],
+        string | null
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<NestedFunctionProps>['first'],
+        _DeepRequiredObject<{
+          second?: ((value: number) => string) | undefined;
+        }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<NestedFunctionProps>['first']['second'],
+        (value: number) => string
+      >
+    >,
+    Expect<
+      Equals<
+        ReturnType<DeepRequired<NestedFunctionProps>['first']['second']>,
+        string
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<BuiltinProps>['map'],
+        Map<string, _DeepRequiredObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<BuiltinProps>['readonlyMap'],
+        ReadonlyMap<string, _DeepRequiredObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<BuiltinProps>['set'],
+        Set<_DeepRequiredObject<BuiltinItem> | null>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<BuiltinProps>['readonlySet'],
+        ReadonlySet<_DeepRequiredObject<BuiltinItem> | null>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<BuiltinProps>['promise'],
+        Promise<_DeepRequiredObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<BuiltinProps>['weakMap'],
+        WeakMap<object, BuiltinItem>
+      >
+    >,
+    Expect<Equals<DeepRequired<BuiltinProps>['weakSet'], WeakSet<BuiltinItem>>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['date'], Date>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['regExp'], RegExp>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['error'], Error>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['typeError'], TypeError>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['httpError'], HttpError>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['int8Array'], Int8Array>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['uint8Array'], Uint8Array>>,
+    Expect<
+      Equals<DeepRequired<BuiltinProps>['uint8ClampedArray'], Uint8ClampedArray>
+    >,
+    Expect<Equals<DeepRequired<BuiltinProps>['int16Array'], Int16Array>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['uint16Array'], Uint16Array>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['int32Array'], Int32Array>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['uint32Array'], Uint32Array>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['float32Array'], Float32Array>>,
+    Expect<Equals<DeepRequired<BuiltinProps>['float64Array'], Float64Array>>,
+    Expect<
+      Equals<
+        DeepRequired<BuiltinProps>['errorLike'],
+        _DeepRequiredObject<{ name: string; message: string; code: number }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<[string, { name?: string }?]>,
+        [string, _DeepRequiredObject<{ name?: string | undefined }>]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<readonly [string, number?]>,
+        readonly [string, number]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepRequired<[string, ...Array<number | undefined>]>,
+        [string, ...number[]]
+      >
+    >,
+    Expect<Equals<DeepRequired<[]>, []>>,
+    Expect<
+      Equals<
+        DeepRequired<Array<[string, number?]>>,
+        _DeepRequiredArray<[string, (number | undefined)?]>
+      >
+    >
+  ];
 }
 
 // @dts-jest:group DeepNonNullable
@@ -432,6 +1402,215 @@ type RequiredOptionalProps = {
   testType<
     ReturnType<DeepNonNullable<NestedFunctionProps>['first']['second']>
   >();
+
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['map']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['readonlyMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['set']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['readonlySet']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['promise']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['weakMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['weakSet']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['date']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['regExp']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['error']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['typeError']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['httpError']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['int8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['uint8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['uint8ClampedArray']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['int16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['uint16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['int32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['uint32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['float32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['float64Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<BuiltinProps>['errorLike']>();
+
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<[string | null, { name?: string | null }?]>>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<readonly [string, (number | null)?]>>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<[string, ...Array<number | null>]>>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<[]>>();
+  // @dts-jest:pass:snap
+  testType<DeepNonNullable<Array<[string | null, number?]>>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        DeepNonNullable<NestedProps>['first'],
+        _DeepNonNullableObject<{
+          second?: { name?: string | null | undefined } | null | undefined;
+        }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<NestedProps>['first']['second'],
+        _DeepNonNullableObject<{ name?: string | null | undefined }>
+      >
+    >,
+    Expect<
+      Equals<DeepNonNullable<NestedProps>['first']['second']['name'], string>
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<NestedArrayProps>['first'],
+        _DeepNonNullableObject<{
+          second?:
+            | Array<{ name?: string | null | undefined } | null | undefined>
+            | undefined;
+        }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<NestedArrayProps>['first']['second'],
+        _DeepNonNullableArray<
+          { name?: string | null | undefined } | null | undefined
+        >
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<NestedArrayProps>['first']['second'][number]['name'],
+        string
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<NestedFunctionProps>['first'],
+        _DeepNonNullableObject<{
+          second?: ((value: number) => string) | undefined;
+        }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<NestedFunctionProps>['first']['second'],
+        (value: number) => string
+      >
+    >,
+    Expect<
+      Equals<
+        ReturnType<DeepNonNullable<NestedFunctionProps>['first']['second']>,
+        string
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['map'],
+        Map<string, _DeepNonNullableObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['readonlyMap'],
+        ReadonlyMap<string, _DeepNonNullableObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['set'],
+        Set<_DeepNonNullableObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['readonlySet'],
+        ReadonlySet<_DeepNonNullableObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['promise'],
+        Promise<_DeepNonNullableObject<BuiltinItem>>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['weakMap'],
+        WeakMap<object, BuiltinItem>
+      >
+    >,
+    Expect<
+      Equals<DeepNonNullable<BuiltinProps>['weakSet'], WeakSet<BuiltinItem>>
+    >,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['date'], Date>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['regExp'], RegExp>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['error'], Error>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['typeError'], TypeError>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['httpError'], HttpError>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['int8Array'], Int8Array>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['uint8Array'], Uint8Array>>,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['uint8ClampedArray'],
+        Uint8ClampedArray
+      >
+    >,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['int16Array'], Int16Array>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['uint16Array'], Uint16Array>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['int32Array'], Int32Array>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['uint32Array'], Uint32Array>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['float32Array'], Float32Array>>,
+    Expect<Equals<DeepNonNullable<BuiltinProps>['float64Array'], Float64Array>>,
+    Expect<
+      Equals<
+        DeepNonNullable<BuiltinProps>['errorLike'],
+        _DeepNonNullableObject<{ name: string; message: string; code: number }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<[string | null, { name?: string | null }?]>,
+        [string, _DeepNonNullableObject<{ name?: string | null | undefined }>]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<readonly [string, (number | null)?]>,
+        readonly [string, number]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNonNullable<[string, ...Array<number | null>]>,
+        [string, ...number[]]
+      >
+    >,
+    Expect<Equals<DeepNonNullable<[]>, []>>,
+    Expect<
+      Equals<
+        DeepNonNullable<Array<[string | null, number?]>>,
+        _DeepNonNullableArray<[string | null, (number | undefined)?]>
+      >
+    >
+  ];
 }
 
 // @dts-jest:group DeepPartial
@@ -487,12 +1666,311 @@ type RequiredOptionalProps = {
   testType<typeof functionProp>();
   // @dts-jest:pass:snap
   testType<ReturnType<NonNullable<typeof functionProp>>>();
+
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['map']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['readonlyMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['set']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['readonlySet']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['promise']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['weakMap']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['weakSet']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['date']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['regExp']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['error']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['typeError']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['httpError']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['int8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['uint8Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['uint8ClampedArray']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['int16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['uint16Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['int32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['uint32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['float32Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['float64Array']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['errorLike']>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<BuiltinProps>['messageLike']>();
+
+  // @dts-jest:pass:snap
+  testType<DeepPartial<[string, { name: string }]>>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<readonly [string, number?]>>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<[string, ...Array<{ name: string }>]>>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<[]>>();
+  // @dts-jest:pass:snap
+  testType<DeepPartial<Array<[string, { name: string }]>>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        typeof partialNested.first,
+        _DeepPartialObject<{ second: { name: string } }> | undefined
+      >
+    >,
+    Expect<
+      Equals<typeof second, _DeepPartialObject<{ name: string }> | undefined>
+    >,
+    Expect<Equals<typeof name, string | undefined>>,
+    Expect<
+      Equals<
+        typeof nestedArrayPartial.first,
+        _DeepPartialObject<{ second: Array<{ name: string }> }> | undefined
+      >
+    >,
+    Expect<
+      Equals<typeof arrayProp, _DeepPartialArray<{ name: string }> | undefined>
+    >,
+    Expect<Equals<typeof arrayItem.name, string | undefined>>,
+    Expect<
+      Equals<
+        typeof nestedFunctionPartial.first,
+        _DeepPartialObject<{ second: (value: number) => string }> | undefined
+      >
+    >,
+    Expect<
+      Equals<typeof functionProp, ((value: number) => string) | undefined>
+    >,
+    Expect<Equals<ReturnType<NonNullable<typeof functionProp>>, string>>,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['map'],
+        Map<string, _DeepPartialObject<BuiltinItem> | undefined> | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['readonlyMap'],
+        | ReadonlyMap<string, _DeepPartialObject<BuiltinItem> | undefined>
+        | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['set'],
+        Set<_DeepPartialObject<BuiltinItem> | null | undefined> | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['readonlySet'],
+        | ReadonlySet<_DeepPartialObject<BuiltinItem> | null | undefined>
+        | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['promise'],
+        Promise<_DeepPartialObject<BuiltinItem> | undefined> | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['weakMap'],
+        WeakMap<object, BuiltinItem> | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['weakSet'],
+        WeakSet<BuiltinItem> | undefined
+      >
+    >,
+    Expect<Equals<DeepPartial<BuiltinProps>['date'], Date | undefined>>,
+    Expect<Equals<DeepPartial<BuiltinProps>['regExp'], RegExp | undefined>>,
+    Expect<Equals<DeepPartial<BuiltinProps>['error'], Error | undefined>>,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['typeError'], TypeError | undefined>
+    >,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['httpError'], HttpError | undefined>
+    >,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['int8Array'], Int8Array | undefined>
+    >,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['uint8Array'], Uint8Array | undefined>
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['uint8ClampedArray'],
+        Uint8ClampedArray | undefined
+      >
+    >,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['int16Array'], Int16Array | undefined>
+    >,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['uint16Array'], Uint16Array | undefined>
+    >,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['int32Array'], Int32Array | undefined>
+    >,
+    Expect<
+      Equals<DeepPartial<BuiltinProps>['uint32Array'], Uint32Array | undefined>
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['float32Array'],
+        Float32Array | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['float64Array'],
+        Float64Array | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['errorLike'],
+        | _DeepPartialObject<{ name: string; message: string; code: number }>
+        | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<BuiltinProps>['messageLike'],
+        _DeepPartialObject<{ name: string; message: string }> | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<[string, { name: string }]>,
+        [
+          (string | undefined)?,
+          (_DeepPartialObject<{ name: string }> | undefined)?
+        ]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<readonly [string, number?]>,
+        readonly [(string | undefined)?, (number | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPartial<[string, ...Array<{ name: string }>]>,
+        [
+          (string | undefined)?,
+          ...Array<_DeepPartialObject<{ name: string }> | undefined>
+        ]
+      >
+    >,
+    Expect<Equals<DeepPartial<[]>, []>>,
+    Expect<
+      Equals<
+        DeepPartial<Array<[string, { name: string }]>>,
+        _DeepPartialArray<[string, { name: string }]>
+      >
+    >
+  ];
+}
+
+// @dts-jest:group DeepNullable
+{
+  type NestedProps = {
+    first: {
+      second: {
+        name: string;
+      };
+    };
+  };
+  const nullableNested: DeepNullable<NestedProps> = {} as any;
+  // @dts-jest:pass:snap
+  testType<typeof nullableNested.first>();
+
+  const second = nullableNested.first!.second;
+  // @dts-jest:pass:snap
+  testType<typeof second>();
+
+  const name = second!.name;
+  // @dts-jest:pass:snap
+  testType<typeof name>();
+
+  type NestedCollectionProps = {
+    items: Array<{ id: number }>;
+    pair: [string, { flag: boolean }];
+    onChange: (value: string) => void;
+    createdAt: Date;
+  };
+  // @dts-jest:pass:snap
+  testType<DeepNullable<NestedCollectionProps>['items']>();
+  // @dts-jest:pass:snap
+  testType<DeepNullable<NestedCollectionProps>['pair']>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        typeof nullableNested.first,
+        _DeepNullableObject<{ second: { name: string } }> | null
+      >
+    >,
+    Expect<Equals<typeof name, string | null>>,
+    Expect<
+      Equals<
+        NonNullable<DeepNullable<NestedCollectionProps>['items']>[number],
+        _DeepNullableObject<{ id: number }> | null
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNullable<NestedCollectionProps>['items'],
+        _DeepNullableArray<{ id: number }> | null
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNullable<NestedCollectionProps>['pair'],
+        [string | null, _DeepNullableObject<{ flag: boolean }> | null] | null
+      >
+    >,
+    Expect<
+      Equals<
+        DeepNullable<NestedCollectionProps>['onChange'],
+        ((value: string) => void) | null
+      >
+    >,
+    Expect<
+      Equals<DeepNullable<NestedCollectionProps>['createdAt'], Date | null>
+    >,
+    Expect<Equals<DeepNullable<string>, string | null>>
+  ];
 }
 
 // @dts-jest:group Brand
 {
   // @dts-jest:pass:snap
   testType<Brand<number, 'USD'>>();
+
+  type Cases = [
+    Expect<Equals<Brand<number, 'USD'>, number & { __brand: 'USD' }>>
+  ];
 }
 
 // @dts-jest:group Optional
@@ -506,6 +1984,50 @@ type RequiredOptionalProps = {
   testType<Optional<Props, 'age' | 'visible'>>({ name: 'Yolo' });
   // @dts-jest:pass:snap
   testType<Optional<Props, 'age' | 'visible'>>({ name: 'Yolo', age: 99 });
+
+  type Cases = [
+    Expect<
+      Equals<
+        Optional<Props>,
+        Pick<Props, never> & { name?: string; age?: number; visible?: boolean }
+      >
+    >,
+    Expect<
+      Equals<
+        Optional<Props, 'age' | 'visible'>,
+        { name: string } & { age?: number; visible?: boolean }
+      >
+    >
+  ];
+}
+
+// @dts-jest:group Nullable
+{
+  // @dts-jest:pass:snap
+  testType<Nullable<Props>>();
+  // @dts-jest:pass:snap
+  testType<Nullable<NullableProps, 'id' | 'avatar'>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        Nullable<Props>,
+        { name: string | null; age: number | null; visible: boolean | null }
+      >
+    >,
+    Expect<
+      Equals<
+        Nullable<NullableProps, 'id' | 'avatar'>,
+        {
+          readonly id: number | null;
+          name: string | null;
+          bio?: string | null;
+          avatar?: string | null;
+        }
+      >
+    >,
+    Expect<Equals<NullableKeys<Nullable<NullableProps>>, keyof NullableProps>>
+  ];
 }
 
 // @dts-jest:group ValuesType
@@ -531,6 +2053,18 @@ type RequiredOptionalProps = {
   testType<ValuesType<Uint16Array>>();
   // @dts-jest:pass:snap
   testType<ValuesType<Uint32Array>>();
+
+  type Cases = [
+    Expect<Equals<ValuesType<Props>, string | number | boolean>>,
+    Expect<Equals<ValuesType<number[]>, number>>,
+    Expect<Equals<ValuesType<readonly symbol[]>, symbol>>,
+    Expect<Equals<ValuesType<ReadonlyArray<string>>, string>>,
+    Expect<Equals<ValuesType<[1, 2]>, 1 | 2>>,
+    Expect<Equals<ValuesType<readonly [1, 2]>, 1 | 2>>,
+    Expect<Equals<ValuesType<Uint8Array>, number>>,
+    Expect<Equals<ValuesType<Uint16Array>, number>>,
+    Expect<Equals<ValuesType<Uint32Array>, number>>
+  ];
 }
 
 // @dts-jest:group AugmentedRequired
@@ -547,6 +2081,25 @@ type RequiredOptionalProps = {
     age: 99,
     visible: true,
   });
+
+  type Cases = [
+    Expect<
+      Equals<
+        AugmentedRequired<Partial<Props>>,
+        Pick<Partial<Props>, never> & {
+          name: string;
+          age: number;
+          visible: boolean;
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        AugmentedRequired<Partial<Props>, 'age' | 'visible'>,
+        { name?: string } & { age: number; visible: boolean }
+      >
+    >
+  ];
 }
 
 // @dts-jest:group UnionToIntersection
@@ -570,6 +2123,188 @@ type RequiredOptionalProps = {
 
   // @dts-jest:pass:snap
   testType<UnionToIntersection<'name' | 'age'>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        UnionToIntersection<
+          { name: string } | { age: number } | { visible: boolean }
+        >,
+        { name: string } & { age: number } & { visible: boolean }
+      >
+    >,
+    Expect<Equals<UnionToIntersection<boolean>, never>>,
+    Expect<Equals<UnionToIntersection<true | false>, never>>,
+    Expect<Equals<UnionToIntersection<'name' | 'age'>, never>>
+  ];
+}
+
+// @dts-jest:group IsNever
+{
+  // @dts-jest:pass:snap
+  testType<IsNever<never>>();
+  // @dts-jest:pass:snap
+  testType<IsNever<undefined>>();
+  // @dts-jest:pass:snap
+  testType<IsNever<any>>();
+  // @dts-jest:pass:snap
+  testType<IsNever<unknown>>();
+  // @dts-jest:pass:snap
+  testType<IsNever<string | never>>();
+
+  type Cases = [
+    Expect<Equals<IsNever<never>, true>>,
+    Expect<Equals<IsNever<undefined>, false>>,
+    Expect<Equals<IsNever<any>, false>>,
+    Expect<Equals<IsNever<unknown>, false>>,
+    Expect<Equals<IsNever<string | never>, false>>
+  ];
+}
+
+// @dts-jest:group IsAny
+{
+  // @dts-jest:pass:snap
+  testType<IsAny<any>>();
+  // @dts-jest:pass:snap
+  testType<IsAny<unknown>>();
+  // @dts-jest:pass:snap
+  testType<IsAny<never>>();
+  // @dts-jest:pass:snap
+  testType<IsAny<string>>();
+  // @dts-jest:pass:snap
+  testType<IsAny<object>>();
+
+  type Cases = [
+    Expect<Equals<IsAny<any>, true>>,
+    Expect<Equals<IsAny<unknown>, false>>,
+    Expect<Equals<IsAny<never>, false>>,
+    Expect<Equals<IsAny<string>, false>>,
+    Expect<Equals<IsAny<object>, false>>
+  ];
+}
+
+// @dts-jest:group IsUnknown
+{
+  // @dts-jest:pass:snap
+  testType<IsUnknown<unknown>>();
+  // @dts-jest:pass:snap
+  testType<IsUnknown<any>>();
+  // @dts-jest:pass:snap
+  testType<IsUnknown<never>>();
+  // @dts-jest:pass:snap
+  testType<IsUnknown<{}>>();
+  // @dts-jest:pass:snap
+  testType<IsUnknown<string | undefined>>();
+
+  type Cases = [
+    Expect<Equals<IsUnknown<unknown>, true>>,
+    Expect<Equals<IsUnknown<any>, false>>,
+    Expect<Equals<IsUnknown<never>, false>>,
+    Expect<Equals<IsUnknown<{}>, false>>,
+    Expect<Equals<IsUnknown<string | undefined>, false>>
+  ];
+}
+
+// @dts-jest:group IsUnion
+{
+  // @dts-jest:pass:snap
+  testType<IsUnion<'name' | 'age'>>();
+  // @dts-jest:pass:snap
+  testType<IsUnion<'name'>>();
+  // @dts-jest:pass:snap
+  testType<IsUnion<boolean>>();
+  // @dts-jest:pass:snap
+  testType<IsUnion<never>>();
+  // @dts-jest:pass:snap
+  testType<IsUnion<any>>();
+  // @dts-jest:pass:snap
+  testType<IsUnion<string | number>>();
+  // @dts-jest:pass:snap
+  testType<IsUnion<Props | DefaultProps>>();
+
+  type Cases = [
+    Expect<Equals<IsUnion<'name' | 'age'>, true>>,
+    Expect<Equals<IsUnion<'name'>, false>>,
+    Expect<Equals<IsUnion<boolean>, true>>,
+    Expect<Equals<IsUnion<never>, false>>,
+    Expect<Equals<IsUnion<any>, false>>,
+    Expect<Equals<IsUnion<string | number>, true>>,
+    Expect<Equals<IsUnion<Props | DefaultProps>, true>>
+  ];
+}
+
+// @dts-jest:group LastOfUnion
+{
+  // @dts-jest:pass:snap
+  testType<LastOfUnion<'name' | 'age' | 'visible'>>();
+  // @dts-jest:pass:snap
+  testType<LastOfUnion<'name'>>();
+  // @dts-jest:pass:snap
+  testType<LastOfUnion<never>>();
+
+  type Cases = [
+    // the member depends on the compiler's internal order of the union
+    Expect<
+      Extends<
+        LastOfUnion<'name' | 'age' | 'visible'>,
+        'name' | 'age' | 'visible'
+      >
+    >,
+    ExpectFalse<IsUnion<LastOfUnion<'name' | 'age' | 'visible'>>>,
+    Expect<Equals<LastOfUnion<'name'>, 'name'>>,
+    Expect<Equals<LastOfUnion<never>, never>>
+  ];
+}
+
+// @dts-jest:group UnionToTuple
+{
+  // @dts-jest:pass:snap
+  testType<UnionToTuple<'name' | 'age' | 'visible'>>();
+  // @dts-jest:pass:snap
+  testType<UnionToTuple<'name'>>();
+  // @dts-jest:pass:snap
+  testType<UnionToTuple<never>>();
+  // @dts-jest:pass:snap
+  testType<UnionToTuple<1 | 2 | 3>>();
+  // @dts-jest:pass:snap
+  testType<UnionToTuple<boolean>>();
+
+  type Cases = [
+    // the order depends on the compiler's internal order of the union
+    Expect<
+      Equals<
+        UnionToTuple<'name' | 'age' | 'visible'>[number],
+        'name' | 'age' | 'visible'
+      >
+    >,
+    Expect<Equals<UnionToTuple<'name' | 'age' | 'visible'>['length'], 3>>,
+    Expect<Equals<UnionToTuple<'name'>, ['name']>>,
+    Expect<Equals<UnionToTuple<never>, []>>,
+    Expect<Equals<UnionToTuple<1 | 2 | 3>, [1, 2, 3]>>,
+    Expect<Equals<UnionToTuple<boolean>, [false, true]>>
+  ];
+}
+
+// @dts-jest:group UnionLength
+{
+  // @dts-jest:pass:snap
+  testType<UnionLength<'name' | 'age' | 'visible'>>();
+  // @dts-jest:pass:snap
+  testType<UnionLength<'name'>>();
+  // @dts-jest:pass:snap
+  testType<UnionLength<never>>();
+  // @dts-jest:pass:snap
+  testType<UnionLength<boolean>>();
+  // @dts-jest:pass:snap
+  testType<UnionLength<keyof Props>>();
+
+  type Cases = [
+    Expect<Equals<UnionLength<'name' | 'age' | 'visible'>, 3>>,
+    Expect<Equals<UnionLength<'name'>, 1>>,
+    Expect<Equals<UnionLength<never>, 0>>,
+    Expect<Equals<UnionLength<boolean>, 2>>,
+    Expect<Equals<UnionLength<keyof Props>, 3>>
+  ];
 }
 
 // @dts-jest:group Mutable
@@ -589,4 +2324,703 @@ type RequiredOptionalProps = {
 
   // @dts-jest:pass:snap
   testType<Mutable<Readonly<Props>>['visible']>(true);
+
+  type Cases = [
+    Expect<
+      Equals<
+        Mutable<Readonly<Props>>,
+        { name: string; age: number; visible: boolean }
+      >
+    >,
+    Expect<Equals<Mutable<Readonly<Props>>['name'], string>>,
+    Expect<Equals<Mutable<Readonly<Props>>['age'], number>>,
+    Expect<Equals<Mutable<Readonly<Props>>['visible'], boolean>>
+  ];
+}
+
+// @dts-jest:group DeepMutable
+{
+  type MutableState = {
+    user: { name: string; address?: { zip: string; lines: string[] } };
+    items: Array<{ id: number; tags?: string[] }>;
+    pair: [string, { flag: boolean }?];
+    dict: { [key: string]: { value: number | null } };
+    cache: Map<string, { hits: number[] }>;
+    selected: Set<{ id: number }>;
+    pending: Promise<{ ids: number[] }>;
+    createdAt: Date;
+    onChange: (value: string) => void;
+  };
+  type FrozenState = DeepReadonly<MutableState>;
+
+  // @dts-jest:pass:snap
+  testType<DeepMutable<FrozenState['user']>>();
+  // @dts-jest:pass:snap
+  testType<DeepMutable<FrozenState['items']>>();
+  // @dts-jest:pass:snap
+  testType<DeepMutable<FrozenState['pair']>>();
+  // @dts-jest:pass:snap
+  testType<DeepMutable<FrozenState['cache']>>();
+  // @dts-jest:pass:snap
+  testType<DeepMutable<ReadonlySet<{ readonly id: number }>>>();
+  // @dts-jest:pass:snap
+  testType<DeepMutable<readonly [number, ReadonlyArray<string>]>>();
+
+  const update = (draft: DeepMutable<FrozenState>) => {
+    draft.items.push({ id: 1 });
+    draft.user.name = 'Yolo';
+    // @dts-jest:pass:snap
+    testType<typeof draft.onChange>();
+  };
+
+  type Cases = [
+    Expect<Equals<DeepMutable<FrozenState>, MutableState>>,
+    Expect<Equals<DeepWritable<FrozenState>, MutableState>>,
+    Expect<
+      Equals<DeepMutable<DeepReadonly<NestedState>>, DeepMutable<NestedState>>
+    >,
+    Expect<
+      Equals<
+        DeepMutable<FrozenState['items']>,
+        Array<{ id: number; tags?: string[] }>
+      >
+    >,
+    Expect<
+      Equals<DeepMutable<FrozenState['pair']>, [string, { flag: boolean }?]>
+    >,
+    Expect<
+      Equals<
+        DeepMutable<ReadonlyMap<string, { readonly hits: readonly number[] }>>,
+        Map<string, { hits: number[] }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepMutable<ReadonlySet<{ readonly id: number }>>,
+        Set<{ id: number }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepMutable<readonly [number, ReadonlyArray<string>]>,
+        [number, string[]]
+      >
+    >,
+    Expect<Equals<DeepMutable<FrozenState['createdAt']>, Date>>,
+    Expect<
+      Equals<DeepMutable<FrozenState['onChange']>, (value: string) => void>
+    >,
+    Expect<Equals<DeepMutable<{ readonly name: string }>, { name: string }>>
+  ];
+}
+
+// @dts-jest:group Paths
+{
+  // @dts-jest:pass:snap
+  testType<Paths<NestedState>>();
+  // @dts-jest:pass:snap
+  testType<Paths<Props>>();
+  // @dts-jest:pass:snap
+  testType<Paths<[number, { name: string }]>>();
+  // @dts-jest:pass:snap
+  testType<Paths<string[][]>>();
+  // @dts-jest:pass:snap
+  testType<Paths<string>>();
+
+  type Tree = { value: number; children: Tree[] };
+  // @dts-jest:pass:snap
+  testType<Paths<Tree>>();
+
+  // @dts-jest:pass:snap
+  testType<Paths<NestedState>>('items.3.tags.0');
+
+  type Cases = [
+    Expect<
+      Equals<
+        Paths<NestedState>,
+        | 'user'
+        | 'items'
+        | 'pair'
+        | 'dict'
+        | 'onChange'
+        | 'user.name'
+        | 'user.address'
+        | 'user.address.zip'
+        | 'user.address.lines'
+        | `user.address.lines.${number}`
+        | `items.${number}`
+        | `items.${number}.id`
+        | `items.${number}.tags`
+        | `items.${number}.tags.${number}`
+        | 'pair.1'
+        | 'pair.0'
+        | 'pair.1.flag'
+        | `dict.${number}`
+        | `dict.${string}`
+        | `dict.${string}.value`
+        | `dict.${number}.value`
+      >
+    >,
+    Expect<Equals<Paths<Props>, 'name' | 'age' | 'visible'>>,
+    Expect<Equals<Paths<[number, { name: string }]>, '1' | '0' | '1.name'>>,
+    Expect<Equals<Paths<string[][]>, `${number}` | `${number}.${number}`>>,
+    Expect<Equals<Paths<string>, never>>,
+    Expect<
+      Equals<
+        Paths<Tree>,
+        | 'value'
+        | 'children'
+        | `children.${number}`
+        | `children.${number}.value`
+        | `children.${number}.children`
+        | `children.${number}.children.${number}`
+        | `children.${number}.children.${number}.value`
+        | `children.${number}.children.${number}.children`
+        | `children.${number}.children.${number}.children.${number}`
+        | `children.${number}.children.${number}.children.${number}.value`
+        | `children.${number}.children.${number}.children.${number}.children`
+        | `children.${number}.children.${number}.children.${number}.children.${number}`
+      >
+    >,
+    Expect<
+      Equals<
+        Paths<NestedState>,
+        | 'user'
+        | 'items'
+        | 'pair'
+        | 'dict'
+        | 'onChange'
+        | 'user.name'
+        | 'user.address'
+        | 'user.address.zip'
+        | 'user.address.lines'
+        | `user.address.lines.${number}`
+        | `items.${number}`
+        | `items.${number}.id`
+        | `items.${number}.tags`
+        | `items.${number}.tags.${number}`
+        | 'pair.1'
+        | 'pair.0'
+        | 'pair.1.flag'
+        | `dict.${number}`
+        | `dict.${string}`
+        | `dict.${string}.value`
+        | `dict.${number}.value`
+      >
+    >
+  ];
+}
+
+// @dts-jest:group LeafPaths
+{
+  // @dts-jest:pass:snap
+  testType<LeafPaths<NestedState>>();
+  // @dts-jest:pass:snap
+  testType<LeafPaths<Props>>();
+
+  // @dts-jest:pass:snap
+  testType<LeafPaths<NestedState>>('user.address.zip');
+
+  type Cases = [
+    Expect<
+      Equals<
+        LeafPaths<NestedState>,
+        | 'user.name'
+        | 'user.address.zip'
+        | `user.address.lines.${number}`
+        | `items.${number}.id`
+        | `items.${number}.tags.${number}`
+        | 'pair.0'
+        | 'pair.1.flag'
+        | `dict.${string}.value`
+        | `dict.${number}.value`
+      >
+    >,
+    Expect<Equals<LeafPaths<Props>, 'name' | 'age' | 'visible'>>,
+    Expect<
+      Equals<
+        LeafPaths<NestedState>,
+        | 'user.name'
+        | 'user.address.zip'
+        | `user.address.lines.${number}`
+        | `items.${number}.id`
+        | `items.${number}.tags.${number}`
+        | 'pair.0'
+        | 'pair.1.flag'
+        | `dict.${string}.value`
+        | `dict.${number}.value`
+      >
+    >
+  ];
+}
+
+// @dts-jest:group PathValue
+{
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'user'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'user.name'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'user.address'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'user.address.zip'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'user.address.lines.2'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'items.0'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'items.0.tags.1'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'pair.0'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'pair.1.flag'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'dict.anyKey.value'>>();
+  // @dts-jest:pass:snap
+  testType<PathValue<NestedState, 'onChange'>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        PathValue<NestedState, 'user'>,
+        {
+          name: string;
+          address?: { zip: string; lines: readonly string[] } | undefined;
+        }
+      >
+    >,
+    Expect<Equals<PathValue<NestedState, 'user.name'>, string>>,
+    Expect<
+      Equals<
+        PathValue<NestedState, 'user.address'>,
+        { zip: string; lines: readonly string[] } | undefined
+      >
+    >,
+    Expect<
+      Equals<PathValue<NestedState, 'user.address.zip'>, string | undefined>
+    >,
+    Expect<
+      Equals<PathValue<NestedState, 'user.address.lines.2'>, string | undefined>
+    >,
+    Expect<
+      Equals<
+        PathValue<NestedState, 'items.0'>,
+        { id: number; tags?: string[] | undefined }
+      >
+    >,
+    Expect<
+      Equals<PathValue<NestedState, 'items.0.tags.1'>, string | undefined>
+    >,
+    Expect<Equals<PathValue<NestedState, 'pair.0'>, string>>,
+    Expect<Equals<PathValue<NestedState, 'pair.1.flag'>, boolean | undefined>>,
+    Expect<Equals<PathValue<NestedState, 'dict.anyKey.value'>, number | null>>,
+    Expect<Equals<PathValue<NestedState, 'onChange'>, (value: string) => void>>
+  ];
+}
+
+// @dts-jest:group DeepOmit
+{
+  // @dts-jest:pass:snap
+  testType<DeepOmit<ApiResponse, 'user.password'>>();
+  // @dts-jest:pass:snap
+  testType<DeepOmit<ApiResponse, 'user.password'>['user']>();
+  // @dts-jest:pass:snap
+  testType<
+    DeepOmit<ApiResponse, 'user.password' | 'user.meta.audit.createdBy'>['user']
+  >();
+  // @dts-jest:pass:snap
+  testType<DeepOmit<ApiResponse, 'items.secret'>['items'][number]>();
+  // @dts-jest:pass:snap
+  testType<DeepOmit<ApiResponse, 'pair.secret'>['pair']>();
+  // @dts-jest:pass:snap
+  testType<DeepOmit<ApiResponse, 'pair.secret'>['pair'][0]>();
+  // @dts-jest:pass:snap
+  testType<DeepOmit<ApiResponse, 'user' | 'items'>>();
+  // @dts-jest:pass:snap
+  testType<DeepOmit<ApiResponse, 'user.meta.audit.createdAt.getTime'>>();
+  // @dts-jest:pass:snap
+  testType<DeepOmit<Props, 'age'>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        DeepOmit<ApiResponse, 'user.password'>,
+        {
+          readonly user?:
+            | {
+                name: string;
+                meta: { audit: { createdBy: string; createdAt: Date } };
+              }
+            | undefined;
+          items: Array<{ id: number; secret: string }>;
+          pair: readonly [
+            { id: number; secret: string },
+            (string | undefined)?
+          ];
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepOmit<ApiResponse, 'user.password'>['user'],
+        | {
+            name: string;
+            meta: { audit: { createdBy: string; createdAt: Date } };
+          }
+        | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepOmit<
+          ApiResponse,
+          'user.password' | 'user.meta.audit.createdBy'
+        >['user'],
+        { name: string; meta: { audit: { createdAt: Date } } } | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepOmit<ApiResponse, 'items.secret'>['items'][number],
+        { id: number }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepOmit<ApiResponse, 'pair.secret'>['pair'],
+        readonly [{ id: number }, (string | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<DeepOmit<ApiResponse, 'pair.secret'>['pair'][0], { id: number }>
+    >,
+    Expect<
+      Equals<
+        DeepOmit<ApiResponse, 'user' | 'items'>,
+        {
+          pair: readonly [
+            { id: number; secret: string },
+            (string | undefined)?
+          ];
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepOmit<ApiResponse, 'user.meta.audit.createdAt.getTime'>,
+        {
+          readonly user?:
+            | {
+                name: string;
+                password: string;
+                meta: { audit: { createdBy: string; createdAt: Date } };
+              }
+            | undefined;
+          items: Array<{ id: number; secret: string }>;
+          pair: readonly [
+            { id: number; secret: string },
+            (string | undefined)?
+          ];
+        }
+      >
+    >,
+    Expect<Equals<DeepOmit<Props, 'age'>, { name: string; visible: boolean }>>
+  ];
+}
+
+// @dts-jest:group DeepPick
+{
+  // @dts-jest:pass:snap
+  testType<DeepPick<ApiResponse, 'user.name'>>();
+  // @dts-jest:pass:snap
+  testType<DeepPick<ApiResponse, 'user.name'>['user']>();
+  // @dts-jest:pass:snap
+  testType<DeepPick<ApiResponse, 'user.name' | 'user.meta.audit.createdAt'>>();
+  // @dts-jest:pass:snap
+  testType<
+    DeepPick<ApiResponse, 'user.name' | 'user.meta.audit.createdAt'>['user']
+  >();
+  // @dts-jest:pass:snap
+  testType<DeepPick<ApiResponse, 'items.id'>['items'][number]>();
+  // @dts-jest:pass:snap
+  testType<DeepPick<ApiResponse, 'pair.id'>['pair']>();
+  // @dts-jest:pass:snap
+  testType<DeepPick<ApiResponse, 'user' | 'user.name'>>();
+  // @dts-jest:pass:snap
+  testType<DeepPick<Props, 'age'>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        DeepPick<ApiResponse, 'user.name'>,
+        { readonly user?: { name: string } | undefined }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPick<ApiResponse, 'user.name'>['user'],
+        { name: string } | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPick<ApiResponse, 'user.name' | 'user.meta.audit.createdAt'>,
+        {
+          readonly user?:
+            | { name: string; meta: { audit: { createdAt: Date } } }
+            | undefined;
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPick<
+          ApiResponse,
+          'user.name' | 'user.meta.audit.createdAt'
+        >['user'],
+        { name: string; meta: { audit: { createdAt: Date } } } | undefined
+      >
+    >,
+    Expect<
+      Equals<DeepPick<ApiResponse, 'items.id'>['items'][number], { id: number }>
+    >,
+    Expect<
+      Equals<
+        DeepPick<ApiResponse, 'pair.id'>['pair'],
+        readonly [{ id: number }, (string | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<
+        DeepPick<ApiResponse, 'user' | 'user.name'>,
+        {
+          readonly user?:
+            | {
+                name: string;
+                password: string;
+                meta: { audit: { createdBy: string; createdAt: Date } };
+              }
+            | undefined;
+        }
+      >
+    >,
+    Expect<Equals<DeepPick<Props, 'age'>, { age: number }>>
+  ];
+}
+
+// @dts-jest:group OptionalPath
+{
+  // @dts-jest:pass:snap
+  testType<OptionalPath<FormDraft, 'id'>>();
+  // @dts-jest:pass:snap
+  testType<OptionalPath<FormDraft, 'profile.avatar.size'>['profile']>();
+  // @dts-jest:pass:snap
+  testType<OptionalPath<FormDraft, 'tags.color'>['tags']>();
+  // @dts-jest:pass:snap
+  testType<OptionalPath<FormDraft, 'id' | 'tags.color'>>();
+  // @dts-jest:pass:snap
+  testType<OptionalPath<Props, 'age'>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        OptionalPath<FormDraft, 'id'>,
+        {
+          readonly id?: number;
+          profile?: { name?: string; avatar?: { url?: string; size: number } };
+          tags: Array<{ label?: string; color: string }>;
+          pair: readonly [{ x?: number }, string];
+          created: Date;
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        OptionalPath<FormDraft, 'profile.avatar.size'>['profile'],
+        { name?: string; avatar?: { url?: string; size?: number } } | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        OptionalPath<FormDraft, 'tags.color'>['tags'],
+        Array<{ label?: string; color?: string }>
+      >
+    >,
+    Expect<
+      Equals<
+        OptionalPath<FormDraft, 'id' | 'tags.color' | 'pair.x'>,
+        {
+          readonly id?: number;
+          profile?: { name?: string; avatar?: { url?: string; size: number } };
+          tags: Array<{ label?: string; color?: string }>;
+          pair: readonly [{ x?: number }, string];
+          created: Date;
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        OptionalPath<Props, 'age'>,
+        { name: string; age?: number; visible: boolean }
+      >
+    >,
+    Expect<
+      Equals<OptionalPath<FormDraft, 'created'>['created'], Date | undefined>
+    >
+  ];
+}
+
+// @dts-jest:group RequiredPath
+{
+  // @dts-jest:pass:snap
+  testType<RequiredPath<FormDraft, 'profile'>>();
+  // @dts-jest:pass:snap
+  testType<RequiredPath<FormDraft, 'profile.avatar.url'>['profile']>();
+  // @dts-jest:pass:snap
+  testType<RequiredPath<FormDraft, 'tags.label'>['tags']>();
+  // @dts-jest:pass:snap
+  testType<RequiredPath<FormDraft, 'pair.x'>['pair']>();
+  // @dts-jest:pass:snap
+  testType<RequiredPath<FormDraft, 'profile' | 'profile.name'>['profile']>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        RequiredPath<FormDraft, 'profile'>,
+        {
+          readonly id: number;
+          profile: { name?: string; avatar?: { url?: string; size: number } };
+          tags: Array<{ label?: string; color: string }>;
+          pair: readonly [{ x?: number }, string];
+          created: Date;
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        RequiredPath<FormDraft, 'profile.avatar.url'>['profile'],
+        { name?: string; avatar?: { url: string; size: number } } | undefined
+      >
+    >,
+    Expect<
+      Equals<
+        RequiredPath<FormDraft, 'tags.label'>['tags'],
+        Array<{ label: string; color: string }>
+      >
+    >,
+    Expect<
+      Equals<
+        RequiredPath<FormDraft, 'pair.x'>['pair'],
+        readonly [{ x: number }, string]
+      >
+    >,
+    Expect<
+      Equals<
+        RequiredPath<FormDraft, 'profile' | 'profile.name'>['profile'],
+        { name: string; avatar?: { url?: string; size: number } }
+      >
+    >,
+    Expect<
+      Equals<
+        RequiredPath<
+          { opt?: string | undefined; reqUndef: number | undefined },
+          'opt' | 'reqUndef'
+        >,
+        { opt: string; reqUndef: number | undefined }
+      >
+    >,
+    Expect<
+      Equals<
+        RequiredPath<OptionalPath<FormDraft, 'tags.color'>, 'tags.color'>,
+        FormDraft
+      >
+    >
+  ];
+}
+
+// @dts-jest:group DeepMerge
+{
+  type Defaults = {
+    server: { port: number; host: string; tls?: { cert: string } };
+    plugins: string[];
+    pair: [number, string];
+    mode: 'dev' | 'prod';
+    createdAt: Date;
+  };
+  type UserConfig = {
+    server?: { port?: number; tls: { key: string } };
+    plugins: Array<'auth'>;
+    pair: [boolean];
+    mode: 'prod' | undefined;
+    verbose?: boolean;
+  };
+
+  // @dts-jest:pass:snap
+  testType<DeepMerge<Defaults, UserConfig>>();
+  // @dts-jest:pass:snap
+  testType<DeepMerge<Defaults, UserConfig, 'concat'>['pair']>();
+  // @dts-jest:pass:snap
+  testType<DeepMerge<Defaults, UserConfig, 'merge'>['plugins']>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        DeepMerge<Defaults, UserConfig>,
+        {
+          server:
+            | { port: number; host: string; tls?: { cert: string } }
+            | {
+                port: number;
+                host: string;
+                tls: { key: string } | { cert: string; key: string };
+              };
+          plugins: Array<'auth'>;
+          pair: [boolean];
+          mode: 'dev' | 'prod';
+          createdAt: Date;
+          verbose?: boolean;
+        }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepMerge<Defaults, UserConfig, 'concat'>['pair'],
+        [number, string, boolean]
+      >
+    >,
+    Expect<
+      Equals<DeepMerge<Defaults, UserConfig, 'concat'>['plugins'], string[]>
+    >,
+    Expect<
+      Equals<DeepMerge<Defaults, UserConfig, 'merge'>['plugins'], string[]>
+    >,
+    Expect<
+      Equals<
+        DeepMerge<
+          { items: Array<{ id: number }> },
+          { items: Array<{ name: string }> },
+          'merge'
+        >['items'],
+        Array<{ id: number } | { name: string } | { id: number; name: string }>
+      >
+    >,
+    Expect<
+      Equals<
+        DeepMerge<{ port?: number }, { port: number | undefined }>,
+        { port?: number }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepMerge<{ name: string }, { __proto__: { admin: true }; id: number }>,
+        { name: string; id: number }
+      >
+    >,
+    Expect<
+      Equals<
+        DeepMerge<{ server: { host: string } }, { server: string }>,
+        { server: string }
+      >
+    >
+  ];
 }
@@ -1,4 +1,4 @@
-import { Primitive } from './aliases-and-guards';
+import { Primitive, Nullish } from './aliases-and-guards';
 
 /**
  * Credits to all the people who given inspiration and shared some very useful code snippets
@@ -65,9 +65,73 @@ export type NonUndefined<A> = A extends undefined ? never : A;
  */
 // type NonNullable - built-in
 
+/**
+ * KnownKeys
+ * @desc Get union type of keys of the properties declared in object type `T`, without the keys of index signatures
+ * @example
+ *   type Props = { [key: string]: unknown; id: number; name?: string };
+ *
+ *   // Expect: "id" | "name"
+ *   type Keys = KnownKeys<Props>;
+ */
+export type KnownKeys<T> = Extract<
+  {
+    [K in keyof T]: string extends K ? never : number extends K ? never : K;
+  } extends { [_ in keyof T]: infer U }
+    ? U
+    : never,
+  keyof T
+>;
+
+/**
+ * RemoveIndexSignature
+ * @desc From object type `T` remove the index signatures, keeping the declared properties
+ * @example
+ *   type Props = { [key: string]: unknown; id: number; name?: string };
+ *
+ *   // Expect: { id: number; name?: string; }
+ *   type KnownProps = RemoveIndexSignature<Props>;
+ */
+export type RemoveIndexSignature<T> = Pick<T, KnownKeys<T>>;
+
+/**
+ * IndexSignatureOf
+ * @desc From object type `T` get the index signature without the declared properties, `{}` when there is none
+ * @example
+ *   type Props = { [key: string]: unknown; id: number; name?: string };
+ *
+ *   // Expect: { [key: string]: unknown; }
+ *   type Rest = IndexSignatureOf<Props>;
+ */
+export type IndexSignatureOf<T> = string extends keyof T
+  ? T extends { [key: string]: infer V }
+    ? { [key: string]: V }
+    : {}
+  : number extends keyof T
+  ? T extends { [index: number]: infer V }
+    ? { [index: number]: V }
+    : {}
+  : {};
+
+/**
+ * HasIndexSignature
+ * @desc Test if object type `T` has a `string` or `number` index signature
+ * @example
+ *   // Expect: true
+ *   HasIndexSignature<{ [key: string]: unknown; id: number }>
+ *
+ *   // Expect: false
+ *   HasIndexSignature<{ id: number }>
+ */
+export type HasIndexSignature<T> = string extends keyof T
+  ? true
+  : number extends keyof T
+  ? true
+  : false;
+
 /**
  * FunctionKeys
- * @desc Get union type of keys that are functions in object type `T`
+ * @desc Get union type of keys that are functions in object type `T`, index signatures are ignored
  * @example
  *  type MixedProps = {name: string; setName: (name: string) => void; someKeys?: string; someFn?: (...args: any) => any;};
  *
@@ -76,11 +140,11 @@ export type NonUndefined<A> = A extends undefined ? never : A;
  */
 export type FunctionKeys<T extends object> = {
   [K in keyof T]-?: NonUndefined<T[K]> extends Function ? K : never;
-}[keyof T];
+}[KnownKeys<T>];
 
 /**
  * NonFunctionKeys
- * @desc Get union type of keys that are non-functions in object type `T`
+ * @desc Get union type of keys that are non-functions in object type `T`, index signatures are ignored
  * @example
  *   type MixedProps = {name: string; setName: (name: string) => void; someKeys?: string; someFn?: (...args: any) => any;};
  *
@@ -89,7 +153,7 @@ export type FunctionKeys<T extends object> = {
  */
 export type NonFunctionKeys<T extends object> = {
   [K in keyof T]-?: NonUndefined<T[K]> extends Function ? never : K;
-}[keyof T];
+}[KnownKeys<T>];
 
 /**
  * MutableKeys
@@ -139,7 +203,7 @@ type IfEquals<X, Y, A = X, B = never> = (<T>() => T extends X ? 1 : 2) extends <
 
 /**
  * RequiredKeys
- * @desc Get union type of keys that are required in object type `T`
+ * @desc Get union type of keys that are required in object type `T`, index signatures are ignored
  * @see https://stackoverflow.com/questions/52984808/is-there-a-way-to-get-all-required-properties-of-a-typescript-object
  * @example
  *   type Props = { req: number; reqUndef: number | undefined; opt?: string; optUndef?: number | undefined; };
@@ -149,11 +213,11 @@ type IfEquals<X, Y, A = X, B = never> = (<T>() => T extends X ? 1 : 2) extends <
  */
 export type RequiredKeys<T> = {
   [K in keyof T]-?: {} extends Pick<T, K> ? never : K;
-}[keyof T];
+}[KnownKeys<T>];
 
 /**
  * OptionalKeys
- * @desc Get union type of keys that are optional in object type `T`
+ * @desc Get union type of keys that are optional in object type `T`, index signatures are ignored
  * @see https://stackoverflow.com/questions/52984808/is-there-a-way-to-get-all-required-properties-of-a-typescript-object
  * @example
  *   type Props = { req: number; reqUndef: number | undefined; opt?: string; optUndef?: number | undefined; };
@@ -163,7 +227,33 @@ export type RequiredKeys<T> = {
  */
 export type OptionalKeys<T> = {
   [K in keyof T]-?: {} extends Pick<T, K> ? K : never;
-}[keyof T];
+}[KnownKeys<T>];
+
+/**
+ * NullableKeys
+ * @desc Get union type of keys that accept `null` in object type `T`, optional keys only count when their type includes `null`, index signatures are ignored
+ * @example
+ *   type Props = { id: number; name: string | null; bio?: string | null; avatar?: string; };
+ *
+ *   // Expect: "name" | "bio"
+ *   type Keys = NullableKeys<Props>;
+ */
+export type NullableKeys<T> = {
+  [K in keyof T]-?: null extends T[K] ? K : never;
+}[KnownKeys<T>];
+
+/**
+ * NonNullableKeys
+ * @desc Get union type of keys that don't accept `null` in object type `T`, index signatures are ignored
+ * @example
+ *   type Props = { id: number; name: string | null; bio?: string | null; avatar?: string; };
+ *
+ *   // Expect: "id" | "avatar"
+ *   type Keys = NonNullableKeys<Props>;
+ */
+export type NonNullableKeys<T> = {
+  [K in keyof T]-?: null extends T[K] ? never : K;
+}[KnownKeys<T>];
 
 /**
  * Pick (complements Omit)
@@ -179,6 +269,7 @@ namespace Pick {}
 /**
  * PickByValue
  * @desc From `T` pick a set of properties by value matching `ValueType`.
+ * The index signature of `T` is kept when its value matches `ValueType`.
  * Credit: [Piotr Lewandowski](https://medium.com/dailyjs/typescript-create-a-condition-based-subset-types-9d902cea5b8c)
  * @example
  *   type Props = { req: number; reqUndef: number | undefined; opt?: string; };
@@ -191,7 +282,13 @@ namespace Pick {}
 export type PickByValue<T, ValueType> = Pick<
   T,
   { [Key in keyof T]-?: T[Key] extends ValueType ? Key : never }[keyof T]
->;
+> &
+  Pick<
+    T,
+    {
+      [Key in keyof T]-?: T[Key] extends ValueType ? Key : never;
+    }[HasIndexSignature<T> extends true ? KnownKeys<T> : keyof T]
+  >;
 
 /**
  * PickByValueExact
@@ -217,14 +314,18 @@ export type PickByValueExact<T, ValueType> = Pick<
 
 /**
  * Omit (complements Pick)
- * @desc From `T` remove a set of properties by key `K`
+ * @desc From `T` remove a set of properties by key `K`, the index signature of `T` and its other declared properties are kept
  * @example
  *   type Props = { name: string; age: number; visible: boolean };
  *
  *   // Expect: { name: string; visible: boolean; }
  *   type Props = Omit<Props, 'age'>;
  */
-export type Omit<T, K extends keyof any> = Pick<T, SetDifference<keyof T, K>>;
+export type Omit<T, K extends keyof any> = Pick<T, SetDifference<keyof T, K>> &
+  Pick<
+    T,
+    SetDifference<HasIndexSignature<T> extends true ? KnownKeys<T> : keyof T, K>
+  >;
 
 /**
  * OmitByValue
@@ -265,6 +366,28 @@ export type OmitByValueExact<T, ValueType> = Pick<
   }[keyof T]
 >;
 
+/**
+ * PickNullable
+ * @desc From `T` pick the properties that accept `null`
+ * @example
+ *   type Props = { id: number; name: string | null; bio?: string | null; };
+ *
+ *   // Expect: { name: string | null; bio?: string | null; }
+ *   type NullableProps = PickNullable<Props>;
+ */
+export type PickNullable<T> = Pick<T, NullableKeys<T>>;
+
+/**
+ * OmitNullable
+ * @desc From `T` remove the properties that accept `null`
+ * @example
+ *   type Props = { id: number; name: string | null; bio?: string | null; };
+ *
+ *   // Expect: { id: number; }
+ *   type NonNullableProps = OmitNullable<Props>;
+ */
+export type OmitNullable<T> = Pick<T, NonNullableKeys<T>>;
+
 /**
  * Intersection
  * @desc From `T` pick properties that exist in `U`
@@ -344,9 +467,21 @@ export type Assign<
 
 /**
  * Exact
- * @desc Create branded object type for exact type matching
+ * @desc From `T` create object type that rejects the properties of `Shape` which don't exist in `T`.
+ * Use it with a generic `Shape` to reject excess properties of variables, not only of object literals.
+ * @example
+ *   type Payload = { id: number; name?: string };
+ *   const send = <P extends Payload>(payload: P & Exact<Payload, P>) => {};
+ *
+ *   const payload = { id: 1, debug: true };
+ *
+ *   // Expect: No compile error
+ *   send({ id: 1 });
+ *   // Expect: Compile error (Type 'boolean' is not assignable to type 'never'.)
+ *   send(payload);
  */
-export type Exact<A extends object> = A & { __brand: keyof A };
+export type Exact<T extends object, Shape = T> = T &
+  { [K in SetDifference<keyof Shape, keyof T>]: never };
 
 /**
  * Unionize
@@ -372,6 +507,49 @@ export type PromiseType<T extends Promise<any>> = T extends Promise<infer U>
   ? U
   : never;
 
+/** @private */
+type _DeepBuiltin =
+  | Date
+  | RegExp
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | WeakMap<any, any>
+  | WeakSet<any>;
+/**
+ * @private
+ * Built-in value types are left untouched by the deep types (checked after `Map` and `Set`,
+ * which are structurally compatible with `WeakMap` and `WeakSet`). `Error` and its subclasses
+ * must declare `stack`, so that plain objects which only happen to have `name` and `message`
+ * are still mapped.
+ */
+type _IsDeepBuiltin<T> = T extends _DeepBuiltin
+  ? true
+  : T extends Error
+  ? 'stack' extends keyof T
+    ? true
+    : false
+  : false;
+
+/**
+ * @private
+ * Tuples are mapped by the homomorphic `_Deep*Object` types, which keep their length,
+ * `readonly` modifier and optional or rest elements.
+ */
+type _IsDeepTuple<T> = T extends ReadonlyArray<any>
+  ? '0' extends keyof T
+    ? true
+    : number extends T['length']
+    ? false
+    : true
+  : false;
+
 // TODO: inline _DeepReadonlyArray with infer in DeepReadonly, same for all other deep types
 /**
  * DeepReadonly
@@ -392,11 +570,24 @@ export type PromiseType<T extends Promise<any>> = T extends Promise<infer U>
  *     };
  *   };
  *   type ReadonlyNestedProps = DeepReadonly<NestedProps>;
+ *
+ *   // Expect: ReadonlyMap<string, { readonly createdAt: Date }>
+ *   type ReadonlyUsers = DeepReadonly<Map<string, { createdAt: Date }>>;
  */
 export type DeepReadonly<T> = T extends ((...args: any[]) => any) | Primitive
   ? T
+  : _IsDeepTuple<T> extends true
+  ? _DeepReadonlyObject<T>
   : T extends _DeepReadonlyArray<infer U>
   ? _DeepReadonlyArray<U>
+  : T extends ReadonlyMap<infer Key, infer Value>
+  ? ReadonlyMap<DeepReadonly<Key>, DeepReadonly<Value>>
+  : T extends ReadonlySet<infer Item>
+  ? ReadonlySet<DeepReadonly<Item>>
+  : T extends Promise<infer Result>
+  ? Promise<DeepReadonly<Result>>
+  : _IsDeepBuiltin<T> extends true
+  ? T
   : T extends _DeepReadonlyObject<infer V>
   ? _DeepReadonlyObject<V>
   : T;
@@ -430,8 +621,22 @@ export type _DeepReadonlyObject<T> = {
  */
 export type DeepRequired<T> = T extends (...args: any[]) => any
   ? T
+  : _IsDeepTuple<T> extends true
+  ? _DeepRequiredObject<T>
   : T extends any[]
   ? _DeepRequiredArray<T[number]>
+  : T extends ReadonlyMap<infer Key, infer Value>
+  ? T extends Map<any, any>
+    ? Map<DeepRequired<Key>, DeepRequired<NonUndefined<Value>>>
+    : ReadonlyMap<DeepRequired<Key>, DeepRequired<NonUndefined<Value>>>
+  : T extends ReadonlySet<infer Item>
+  ? T extends Set<any>
+    ? Set<DeepRequired<NonUndefined<Item>>>
+    : ReadonlySet<DeepRequired<NonUndefined<Item>>>
+  : T extends Promise<infer Result>
+  ? Promise<DeepRequired<NonUndefined<Result>>>
+  : _IsDeepBuiltin<T> extends true
+  ? T
   : T extends object
   ? _DeepRequiredObject<T>
   : T;
@@ -467,8 +672,28 @@ export type _DeepRequiredObject<T> = {
  */
 export type DeepNonNullable<T> = T extends (...args: any[]) => any
   ? T
+  : _IsDeepTuple<T> extends true
+  ? _DeepNonNullableObject<T>
   : T extends any[]
   ? _DeepNonNullableArray<T[number]>
+  : T extends ReadonlyMap<infer Key, infer Value>
+  ? T extends Map<any, any>
+    ? Map<
+        DeepNonNullable<NonNullable<Key>>,
+        DeepNonNullable<NonNullable<Value>>
+      >
+    : ReadonlyMap<
+        DeepNonNullable<NonNullable<Key>>,
+        DeepNonNullable<NonNullable<Value>>
+      >
+  : T extends ReadonlySet<infer Item>
+  ? T extends Set<any>
+    ? Set<DeepNonNullable<NonNullable<Item>>>
+    : ReadonlySet<DeepNonNullable<NonNullable<Item>>>
+  : T extends Promise<infer Result>
+  ? Promise<DeepNonNullable<NonNullable<Result>>>
+  : _IsDeepBuiltin<T> extends true
+  ? T
   : T extends object
   ? _DeepNonNullableObject<T>
   : T;
@@ -503,8 +728,22 @@ export type _DeepNonNullableObject<T> = {
  */
 export type DeepPartial<T> = T extends Function
   ? T
+  : _IsDeepTuple<T> extends true
+  ? _DeepPartialObject<T>
   : T extends Array<infer U>
   ? _DeepPartialArray<U>
+  : T extends ReadonlyMap<infer Key, infer Value>
+  ? T extends Map<any, any>
+    ? Map<Key, DeepPartial<Value>>
+    : ReadonlyMap<Key, DeepPartial<Value>>
+  : T extends ReadonlySet<infer Item>
+  ? T extends Set<any>
+    ? Set<DeepPartial<Item>>
+    : ReadonlySet<DeepPartial<Item>>
+  : T extends Promise<infer Result>
+  ? Promise<DeepPartial<Result>>
+  : _IsDeepBuiltin<T> extends true
+  ? T
   : T extends object
   ? _DeepPartialObject<T>
   : T | undefined;
@@ -514,6 +753,55 @@ export interface _DeepPartialArray<T> extends Array<DeepPartial<T>> {}
 /** @private */
 export type _DeepPartialObject<T> = { [P in keyof T]?: DeepPartial<T[P]> };
 
+/**
+ * DeepNullable
+ * @desc Nullable that works for deeply nested structure
+ * @example
+ *   // Expect: {
+ *   //   first: {
+ *   //     second: {
+ *   //       name: string | null;
+ *   //     } | null;
+ *   //   } | null;
+ *   // }
+ *   type NestedProps = {
+ *     first: {
+ *       second: {
+ *         name: string;
+ *       };
+ *     };
+ *   };
+ *   type NullableNestedProps = DeepNullable<NestedProps>;
+ */
+export type DeepNullable<T> = T extends Function
+  ? T
+  : _IsDeepTuple<T> extends true
+  ? _DeepNullableObject<T>
+  : T extends Array<infer U>
+  ? _DeepNullableArray<U>
+  : T extends ReadonlyMap<infer Key, infer Value>
+  ? T extends Map<any, any>
+    ? Map<Key, DeepNullable<Value>>
+    : ReadonlyMap<Key, DeepNullable<Value>>
+  : T extends ReadonlySet<infer Item>
+  ? T extends Set<any>
+    ? Set<DeepNullable<Item>>
+    : ReadonlySet<DeepNullable<Item>>
+  : T extends Promise<infer Result>
+  ? Promise<DeepNullable<Result>>
+  : _IsDeepBuiltin<T> extends true
+  ? T
+  : T extends object
+  ? _DeepNullableObject<T>
+  : T | null;
+/** @private */
+// tslint:disable-next-line:class-name
+export interface _DeepNullableArray<T> extends Array<DeepNullable<T> | null> {}
+/** @private */
+export type _DeepNullableObject<T> = {
+  [P in keyof T]: DeepNullable<T[P]> | null;
+};
+
 /**
  * Brand
  * @desc Define nominal type of U based on type of T. Similar to Opaque types in Flow.
@@ -558,6 +846,26 @@ export type Optional<T extends object, K extends keyof T = keyof T> = Omit<
 > &
   Partial<Pick<T, K>>;
 
+/**
+ * Nullable
+ * @desc From `T` make a set of properties by key `K` accept `null`, all of them when `K` is not given
+ * @example
+ *    type Props = {
+ *      name: string;
+ *      age: number;
+ *      visible: boolean;
+ *    };
+ *
+ *    // Expect: { name: string | null; age: number | null; visible: boolean | null; }
+ *    type Props = Nullable<Props>;
+ *
+ *    // Expect: { name: string; age: number | null; visible: boolean | null; }
+ *    type Props = Nullable<Props, 'age' | 'visible'>;
+ */
+export type Nullable<T extends object, K extends keyof T = keyof T> = {
+  [P in keyof T]: P extends K ? T[P] | null : T[P];
+};
+
 /**
  * ValuesType
  * @desc Get the union type of all the values in an object, array or array-like type `T`
@@ -626,12 +934,104 @@ export type AugmentedRequired<
  *   // Expect: { name: string } & { age: number } & { visible: boolean }
  *   UnionToIntersection<{ name: string } | { age: number } | { visible: boolean }>
  */
-export type UnionToIntersection<U> = (U extends any
-? (k: U) => void
-: never) extends (k: infer I) => void
+export type UnionToIntersection<U> = (
+  U extends any ? (k: U) => void : never
+) extends (k: infer I) => void
   ? I
   : never;
 
+/**
+ * IsNever
+ * @desc Test if type `T` is `never`, checked without distributing over `T`
+ * @example
+ *   // Expect: true
+ *   IsNever<never>
+ *
+ *   // Expect: false
+ *   IsNever<undefined>
+ */
+export type IsNever<T> = [T] extends [never] ? true : false;
+
+/**
+ * IsAny
+ * @desc Test if type `T` is `any`, only `any` intersected with `1` is assignable from `0`
+ * @example
+ *   // Expect: true
+ *   IsAny<any>
+ *
+ *   // Expect: false
+ *   IsAny<unknown>
+ */
+export type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * IsUnknown
+ * @desc Test if type `T` is `unknown`
+ * @example
+ *   // Expect: true
+ *   IsUnknown<unknown>
+ *
+ *   // Expect: false
+ *   IsUnknown<any>
+ */
+export type IsUnknown<T> = IsAny<T> extends true
+  ? false
+  : unknown extends T
+  ? true
+  : false;
+
+/**
+ * IsUnion
+ * @desc Test if type `U` is a union of two or more members, a union is never assignable to the intersection of its members
+ * @example
+ *   // Expect: true
+ *   IsUnion<'name' | 'age'>
+ *
+ *   // Expect: false
+ *   IsUnion<'name'>
+ */
+export type IsUnion<U> = IsNever<U> extends true
+  ? false
+  : [U] extends [UnionToIntersection<U>]
+  ? false
+  : true;
+
+/**
+ * LastOfUnion
+ * @desc Get a single member of union type `U`, the last one in the compiler's internal order
+ * @example
+ *   // Expect: 'age'
+ *   LastOfUnion<'name' | 'age'>
+ */
+export type LastOfUnion<U> = UnionToIntersection<
+  U extends any ? () => U : never
+> extends () => infer R
+  ? R
+  : never;
+
+/**
+ * UnionToTuple
+ * @desc Get tuple type of the members of union type `U`.
+ * The order of the members follows the compiler's internal order of the union, it usually matches the declaration order,
+ * but it's not guaranteed and can change between compiler versions or when the members were already used elsewhere,
+ * so don't rely on it. Unions of more than about 40 members exceed the compiler's recursion limit.
+ * @example
+ *   // Expect: ['name', 'age']
+ *   UnionToTuple<'name' | 'age'>
+ */
+export type UnionToTuple<U, L = LastOfUnion<U>> = IsNever<U> extends true
+  ? []
+  : [...UnionToTuple<Exclude<U, L>>, L];
+
+/**
+ * UnionLength
+ * @desc Get the number of members of union type `U`, `boolean` counts as `true | false`
+ * @example
+ *   // Expect: 3
+ *   UnionLength<'name' | 'age' | 'visible'>
+ */
+export type UnionLength<U> = UnionToTuple<U>['length'];
+
 /**
  * Mutable
  * @desc From `T` make all properties become mutable
@@ -647,3 +1047,389 @@ export type UnionToIntersection<U> = (U extends any
  */
 export type Mutable<T> = { -readonly [P in keyof T]: T[P] };
 export type Writable<T> = Mutable<T>;
+
+/**
+ * DeepMutable
+ * @desc Mutable that works for deeply nested structure, it undoes `DeepReadonly` for plain data
+ * @example
+ *   // Expect: {
+ *   //   first: {
+ *   //     second: {
+ *   //       name: string;
+ *   //     };
+ *   //   };
+ *   // }
+ *   type NestedProps = {
+ *     readonly first: {
+ *       readonly second: {
+ *         readonly name: string;
+ *       };
+ *     };
+ *   };
+ *   type MutableNestedProps = DeepMutable<NestedProps>;
+ *
+ *   // Expect: Map<string, { createdAt: Date }>
+ *   type Users = DeepMutable<ReadonlyMap<string, { readonly createdAt: Date }>>;
+ */
+export type DeepMutable<T> = T extends ((...args: any[]) => any) | Primitive
+  ? T
+  : _IsDeepTuple<T> extends true
+  ? _DeepMutableObject<T>
+  : T extends ReadonlyArray<infer U>
+  ? Array<DeepMutable<U>>
+  : T extends ReadonlyMap<infer Key, infer Value>
+  ? Map<DeepMutable<Key>, DeepMutable<Value>>
+  : T extends ReadonlySet<infer Item>
+  ? Set<DeepMutable<Item>>
+  : T extends Promise<infer Result>
+  ? Promise<DeepMutable<Result>>
+  : _IsDeepBuiltin<T> extends true
+  ? T
+  : _DeepMutableObject<T>;
+export type DeepWritable<T> = DeepMutable<T>;
+/** @private */
+export type _DeepMutableObject<T> = {
+  -readonly [P in keyof T]: DeepMutable<T[P]>;
+};
+
+/** @private */
+type _PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+/** @private */
+type _PathKeys<T> = T extends ReadonlyArray<any>
+  ? number extends T['length']
+    ? number
+    : Extract<keyof T, `${number}`>
+  : Extract<keyof T, string | number>;
+/** @private */
+type _Paths<T, D extends number, OnlyLeaves extends boolean> = [D] extends [
+  never
+]
+  ? never
+  : T extends Primitive | Function
+  ? never
+  : {
+      [K in _PathKeys<T>]-?:
+        | (OnlyLeaves extends true
+            ? [T[K & keyof T]] extends [Primitive]
+              ? `${K}`
+              : never
+            : `${K}`)
+        | `${K}.${_Paths<
+            NonNullable<T[K & keyof T]>,
+            _PathDepth[D],
+            OnlyLeaves
+          >}`;
+    }[_PathKeys<T>];
+
+/**
+ * Paths
+ * @desc Get union type of all the dot-separated property paths in object type `T` (including arrays and tuples).
+ * Paths are resolved up to 8 levels deep, which keeps recursive types from expanding infinitely.
+ * @example
+ *   type State = { user: { address?: { zip: string } }; items: Array<{ id: number }> };
+ *
+ *   // Expect: "user" | "user.address" | "user.address.zip" | "items" | `items.${number}` | `items.${number}.id`
+ *   type StatePaths = Paths<State>;
+ */
+export type Paths<T> = _Paths<T, 7, false>;
+
+/**
+ * LeafPaths
+ * @desc Get union type of all the dot-separated property paths in object type `T` that end at a `Primitive` value
+ * @example
+ *   type State = { user: { address?: { zip: string } }; items: Array<{ id: number }> };
+ *
+ *   // Expect: "user.address.zip" | `items.${number}.id`
+ *   type StateLeafPaths = LeafPaths<State>;
+ */
+export type LeafPaths<T> = _Paths<T, 7, true>;
+
+/** @private */
+type _PathSegmentValue<T, K extends string> = T extends Nullish
+  ? undefined
+  : K extends keyof T
+  ? T[K]
+  : K extends `${number}`
+  ? T extends ReadonlyArray<any>
+    ? T[number]
+    : number extends keyof T
+    ? T[number & keyof T]
+    : undefined
+  : undefined;
+/** @private */
+type _PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? _PathValue<_PathSegmentValue<T, K>, Rest>
+  : _PathSegmentValue<T, P>;
+
+/**
+ * PathValue
+ * @desc Get the type of the value in object type `T` at the given dot-separated path `P`.
+ * Traversing an optional or nullable segment adds `undefined` to the resulting type.
+ * @example
+ *   type State = { user: { address?: { zip: string } }; items: Array<{ id: number }> };
+ *
+ *   // Expect: string | undefined
+ *   type Zip = PathValue<State, 'user.address.zip'>;
+ *   // Expect: number
+ *   type Id = PathValue<State, 'items.0.id'>;
+ */
+export type PathValue<T, P extends Paths<T>> = _PathValue<T, P>;
+
+/** @private */
+type _PathHead<P extends string> = P extends `${infer Head}.${string}`
+  ? Head
+  : P;
+/** @private */
+type _PathTail<P extends string, K> = P extends `${K &
+  (string | number)}.${infer Tail}`
+  ? Tail
+  : never;
+/** @private */
+type _IsPathLeaf<T> = T extends Primitive | Function
+  ? true
+  : T extends ReadonlyMap<any, any> | ReadonlySet<any> | Promise<any>
+  ? true
+  : _IsDeepBuiltin<T>;
+
+/**
+ * DeepOmit
+ * @desc From `T` remove a set of nested properties by dot-separated path `P` (arrays are traversed for every element)
+ * @example
+ *   type Response = { user: { name: string; password: string }; items: Array<{ id: number; secret: string }> };
+ *
+ *   // Expect: { user: { name: string }; items: Array<{ id: number }> }
+ *   type PublicResponse = DeepOmit<Response, 'user.password' | 'items.secret'>;
+ */
+export type DeepOmit<T, P extends string> = _IsPathLeaf<T> extends true
+  ? T
+  : T extends ReadonlyArray<any>
+  ? _DeepOmitArray<T, P>
+  : _DeepOmitObject<T, P>;
+/** @private */
+type _DeepOmitArray<T, P extends string> = {
+  [K in keyof T]: DeepOmit<T[K], P>;
+};
+/** @private */
+type _DeepOmitObject<T, P extends string> = {
+  [K in keyof T as K extends P ? never : K]: K extends _PathHead<P>
+    ? DeepOmit<T[K], _PathTail<P, K>>
+    : T[K];
+};
+
+/**
+ * DeepPick
+ * @desc From `T` pick a set of nested properties by dot-separated path `P` (arrays are traversed for every element)
+ * @example
+ *   type Response = { user: { name: string; password: string }; items: Array<{ id: number; secret: string }> };
+ *
+ *   // Expect: { user: { name: string }; items: Array<{ id: number }> }
+ *   type PickedResponse = DeepPick<Response, 'user.name' | 'items.id'>;
+ */
+export type DeepPick<T, P extends string> = _IsPathLeaf<T> extends true
+  ? T
+  : T extends ReadonlyArray<any>
+  ? _DeepPickArray<T, P>
+  : _DeepPickObject<T, P>;
+/** @private */
+type _DeepPickArray<T, P extends string> = {
+  [K in keyof T]: DeepPick<T[K], P>;
+};
+/** @private */
+type _DeepPickObject<T, P extends string> = {
+  [K in keyof T as K extends _PathHead<P> ? K : never]: K extends P
+    ? T[K]
+    : DeepPick<T[K], _PathTail<P, K>>;
+};
+
+/** @private */
+type _Flatten<T> = T extends unknown ? { [K in keyof T]: T[K] } : never;
+
+/**
+ * OptionalPath
+ * @desc From `T` make a set of nested properties optional by dot-separated path `P` (arrays are traversed for every element)
+ * @example
+ *   type Form = { profile: { name: string; avatar: { url: string; size: number } }; tags: Array<{ label: string }> };
+ *
+ *   // Expect: { profile: { name: string; avatar: { url?: string; size: number } }; tags: Array<{ label?: string }> }
+ *   type Draft = OptionalPath<Form, 'profile.avatar.url' | 'tags.label'>;
+ */
+export type OptionalPath<T, P extends string> = T extends unknown
+  ? _IsPathLeaf<T> extends true
+    ? T
+    : T extends ReadonlyArray<any>
+    ? _OptionalPathArray<T, P>
+    : _OptionalPathObject<T, P>
+  : never;
+/** @private */
+type _OptionalPathArray<T, P extends string> = {
+  [K in keyof T]: OptionalPath<T[K], P>;
+};
+/** @private */
+type _OptionalPathObject<T, P extends string> = _Flatten<
+  {
+    [K in keyof T as K extends P ? K : never]?: _OptionalPathValue<T, P, K>;
+  } &
+    {
+      [K in keyof T as K extends P ? never : K]: _OptionalPathValue<T, P, K>;
+    }
+>;
+/** @private */
+type _OptionalPathValue<
+  T,
+  P extends string,
+  K extends keyof T
+> = K extends _PathHead<P> ? OptionalPath<T[K], _PathTail<P, K>> : T[K];
+
+/**
+ * RequiredPath
+ * @desc From `T` make a set of nested properties required by dot-separated path `P` (arrays are traversed for every element)
+ * @example
+ *   type Form = { profile?: { name?: string; avatar?: { url?: string } }; tags: Array<{ label?: string }> };
+ *
+ *   // Expect: { profile?: { name?: string; avatar?: { url: string } }; tags: Array<{ label: string }> }
+ *   type Submitted = RequiredPath<Form, 'profile.avatar.url' | 'tags.label'>;
+ */
+export type RequiredPath<T, P extends string> = T extends unknown
+  ? _IsPathLeaf<T> extends true
+    ? T
+    : T extends ReadonlyArray<any>
+    ? _RequiredPathArray<T, P>
+    : _RequiredPathObject<T, P>
+  : never;
+/** @private */
+type _RequiredPathArray<T, P extends string> = {
+  [K in keyof T]: RequiredPath<T[K], P>;
+};
+/** @private */
+type _RequiredPathObject<T, P extends string> = _Flatten<
+  {
+    [K in keyof T as K extends P ? K : never]-?: _RequiredPathValue<T, P, K>;
+  } &
+    {
+      [K in keyof T as K extends P ? never : K]: _RequiredPathValue<T, P, K>;
+    }
+>;
+/** @private */
+type _RequiredPathValue<
+  T,
+  P extends string,
+  K extends keyof T
+> = K extends _PathHead<P> ? RequiredPath<T[K], _PathTail<P, K>> : T[K];
+
+/**
+ * ArrayMergeStrategy
+ * @desc How `DeepMerge` and `deepMerge` combine two arrays found at the same key:
+ * `'replace'` takes the array of the source, `'concat'` appends it to the array of the target
+ * and `'merge'` deeply merges the elements by index.
+ */
+export type ArrayMergeStrategy = 'replace' | 'concat' | 'merge';
+
+/** @private */
+type _UnsafeMergeKey = '__proto__' | 'constructor' | 'prototype';
+/** @private */
+type _IsMergeableObject<T> = _IsPathLeaf<T> extends true
+  ? false
+  : T extends ReadonlyArray<any>
+  ? false
+  : true;
+/** @private */
+type _DeepMergeValue<
+  X,
+  Y,
+  S extends ArrayMergeStrategy
+> = Y extends ReadonlyArray<any>
+  ? X extends ReadonlyArray<any>
+    ? _DeepMergeArray<X, Y, S>
+    : Y
+  : _IsMergeableObject<Y> extends true
+  ? X extends unknown
+    ? _IsMergeableObject<X> extends true
+      ? _DeepMergeObject<X, Y, S>
+      : Y
+    : never
+  : Y;
+/** @private */
+type _DeepMergeArray<
+  X extends ReadonlyArray<any>,
+  Y extends ReadonlyArray<any>,
+  S extends ArrayMergeStrategy
+> = S extends 'concat'
+  ? number extends X['length'] | Y['length']
+    ? Array<X[number] | Y[number]>
+    : [...X, ...Y]
+  : S extends 'merge'
+  ? Array<X[number] | Y[number] | _DeepMergeValue<X[number], Y[number], S>>
+  : Y;
+/** @private */
+type _MayBeMissing<T, K> = K extends keyof T
+  ? {} extends Pick<T, K>
+    ? true
+    : false
+  : true;
+/** @private */
+type _MayBeSkipped<T, K> = _MayBeMissing<T, K> extends true
+  ? true
+  : K extends keyof T
+  ? undefined extends T[K]
+    ? true
+    : false
+  : false;
+/** @private */
+type _DeepMergeOptionalKeys<A, B> = {
+  [K in Exclude<keyof A | keyof B, _UnsafeMergeKey>]: _MayBeMissing<
+    A,
+    K
+  > extends true
+    ? _MayBeSkipped<B, K> extends true
+      ? K
+      : never
+    : never;
+}[Exclude<keyof A | keyof B, _UnsafeMergeKey>];
+/** @private */
+type _UnionOfDistinct<X, Y> = [X] extends [Y]
+  ? [Y] extends [X]
+    ? X
+    : X | Y
+  : X | Y;
+/** @private */
+type _DeepMergeProp<A, B, K, S extends ArrayMergeStrategy> = K extends keyof B
+  ? K extends keyof A
+    ? _MayBeSkipped<B, K> extends true
+      ? _UnionOfDistinct<A[K], _DeepMergeValue<A[K], NonUndefined<B[K]>, S>>
+      : _DeepMergeValue<A[K], B[K], S>
+    : NonUndefined<B[K]>
+  : K extends keyof A
+  ? A[K]
+  : never;
+/** @private */
+type _DeepMergeObject<A, B, S extends ArrayMergeStrategy> = _Flatten<
+  {
+    [K in Exclude<
+      keyof A | keyof B,
+      _UnsafeMergeKey | _DeepMergeOptionalKeys<A, B>
+    >]: _DeepMergeProp<A, B, K, S>;
+  } &
+    {
+      [K in _DeepMergeOptionalKeys<A, B>]?: _DeepMergeProp<A, B, K, S>;
+    }
+>;
+
+/**
+ * DeepMerge
+ * @desc Get the type of object type `B` deeply merged into object type `A`, same as the result of `deepMerge(a, b)`.
+ * Nested plain objects are merged, arrays are combined by `ArrayMergeStrategy` `S` (`'replace'` by default) and any other value of `B` replaces the one of `A`.
+ * Optional or `undefined` properties of `B` keep the value of `A`.
+ * @example
+ *   type Defaults = { server: { port: number; host: string }; plugins: string[] };
+ *   type UserConfig = { server?: { port?: number }; plugins: Array<'auth'> };
+ *
+ *   // Expect: { server: { port: number; host: string }; plugins: Array<'auth'> }
+ *   type Config = DeepMerge<Defaults, UserConfig>;
+ *   // Expect: { server: { port: number; host: string }; plugins: string[] }
+ *   type ExtendedConfig = DeepMerge<Defaults, UserConfig, 'concat'>;
+ */
+export type DeepMerge<
+  A extends object,
+  B extends object,
+  S extends ArrayMergeStrategy = 'replace'
+> = _DeepMergeObject<A, B, S>;
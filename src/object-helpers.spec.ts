@@ -0,0 +1,146 @@
+import { expectType } from './type-assertions';
+import {
+  Assign,
+  Diff,
+  Intersection,
+  Omit,
+  Overwrite,
+  PickByValue,
+} from './mapped-types';
+import {
+  pick,
+  omit,
+  assign,
+  overwrite,
+  diff,
+  intersection,
+  pickByValue,
+} from './object-helpers';
+
+/**
+ * Fixtures
+ */
+
+type Props = { name: string; age: number; visible?: boolean };
+type NewProps = { age: string; other: string };
+
+const props: Props = { name: 'Yolo', age: 99, visible: true };
+const newProps: NewProps = { age: '99', other: 'value' };
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group pick
+it('picks the given properties', () => {
+  // @dts-jest:pass:snap
+  expectType<Pick<Props, 'age' | 'visible'>>()(pick(props, 'age', 'visible'));
+  // @dts-jest:pass:snap
+  expectType<Pick<Props, never>>()(pick(props));
+
+  expect(pick(props, 'age', 'visible')).toEqual({ age: 99, visible: true });
+  expect(pick({ name: 'Yolo' } as Props, 'name', 'visible')).toEqual({
+    name: 'Yolo',
+  });
+  expect(pick(props)).toEqual({});
+});
+
+// @dts-jest:group omit
+it('removes the given properties', () => {
+  // @dts-jest:pass:snap
+  expectType<Omit<Props, 'age'>>()(omit(props, 'age'));
+  // @dts-jest:pass:snap
+  expectType<{ name: string; visible?: boolean }>()(omit(props, 'age'));
+  // @dts-jest:pass:snap
+  expectType<Omit<Props, never>>()(omit(props));
+
+  expect(omit(props, 'age')).toEqual({ name: 'Yolo', visible: true });
+  expect(omit(props, 'age', 'name', 'visible')).toEqual({});
+  expect(omit(props)).toEqual(props);
+  expect(omit(props)).not.toBe(props);
+});
+
+// @dts-jest:group assign
+it('assigns the properties of the second object', () => {
+  // @dts-jest:pass:snap
+  expectType<Assign<Props, NewProps>>()(assign(props, newProps));
+
+  expect(assign(props, newProps)).toEqual({
+    name: 'Yolo',
+    age: '99',
+    visible: true,
+    other: 'value',
+  });
+  expect(props).toEqual({ name: 'Yolo', age: 99, visible: true });
+});
+
+// @dts-jest:group overwrite
+it('overwrites the existing properties only', () => {
+  // @dts-jest:pass:snap
+  expectType<Overwrite<Props, NewProps>>()(overwrite(props, newProps));
+
+  expect(overwrite(props, newProps)).toEqual({
+    name: 'Yolo',
+    age: '99',
+    visible: true,
+  });
+  expect(overwrite({ name: 'Yolo' }, { age: 1 })).toEqual({ name: 'Yolo' });
+});
+
+// @dts-jest:group diff
+it('removes the properties existing in the second object', () => {
+  // @dts-jest:pass:snap
+  expectType<Diff<Props, NewProps>>()(diff(props, newProps));
+  // @dts-jest:pass:snap
+  expectType<{ name: string; visible?: boolean }>()(diff(props, newProps));
+
+  expect(diff(props, newProps)).toEqual({ name: 'Yolo', visible: true });
+  expect(diff(props, {})).toEqual(props);
+});
+
+// @dts-jest:group intersection
+it('keeps the properties existing in the second object', () => {
+  // @dts-jest:pass:snap
+  expectType<Intersection<Props, NewProps>>()(intersection(props, newProps));
+  // @dts-jest:pass:snap
+  expectType<{ age: number }>()(intersection(props, newProps));
+
+  expect(intersection(props, newProps)).toEqual({ age: 99 });
+  expect(intersection(props, {})).toEqual({});
+});
+
+it('copies the own enumerable symbol properties', () => {
+  const id = Symbol('id');
+  const tag = Symbol('tag');
+  const hidden = Symbol('hidden');
+  const tagged = { name: 'Yolo', [id]: 1, [tag]: 'user' };
+  Object.defineProperty(tagged, hidden, { value: true, enumerable: false });
+
+  expect(omit(tagged, tag)).toEqual({ name: 'Yolo', [id]: 1 });
+  expect(omit(tagged, tag)[id]).toBe(1);
+  expect(hidden in omit(tagged)).toBe(false);
+  expect(assign(tagged, { [tag]: 'admin' })[tag]).toBe('admin');
+  expect(assign({ name: 'Yolo' }, tagged)[id]).toBe(1);
+  expect(overwrite(tagged, { [id]: 2, other: 'value' })[id]).toBe(2);
+  expect(diff(tagged, { [id]: 2 })).toEqual({ name: 'Yolo', [tag]: 'user' });
+  expect(intersection(tagged, { [id]: 2 })[id]).toBe(1);
+});
+
+// @dts-jest:group pickByValue
+it('picks the properties passing the type guard', () => {
+  const isNumber = (val: unknown): val is number => typeof val === 'number';
+  const isString = (val: unknown): val is string => typeof val === 'string';
+
+  // @dts-jest:pass:snap
+  expectType<PickByValue<Props, number>>()(pickByValue(props, isNumber));
+  // @dts-jest:pass:snap
+  expectType<{ age: number }>()(pickByValue(props, isNumber));
+  // @dts-jest:pass:snap
+  expectType<{ name: string }>()(pickByValue(props, isString));
+
+  expect(pickByValue(props, isNumber)).toEqual({ age: 99 });
+  expect(pickByValue(props, isString)).toEqual({ name: 'Yolo' });
+  expect(
+    pickByValue({ id: 1 as string | number, name: 'Yolo' }, isString)
+  ).toEqual({ name: 'Yolo' });
+});
@@ -0,0 +1,169 @@
+import { Guard } from './aliases-and-guards';
+import {
+  Assign,
+  Diff,
+  Intersection,
+  Omit,
+  Overwrite,
+  PickByValue,
+} from './mapped-types';
+
+/** @private */
+const hasOwn = (value: object, key: PropertyKey): boolean =>
+  Object.prototype.hasOwnProperty.call(value, key);
+
+/** @private */
+const pickWhere = <R>(
+  value: object,
+  predicate: (key: string | symbol, propValue: unknown) => boolean
+): R => {
+  const result = {};
+  const keys: Array<string | symbol> = Object.keys(value);
+  Object.getOwnPropertySymbols(value).forEach(symbol => {
+    if (Object.prototype.propertyIsEnumerable.call(value, symbol)) {
+      keys.push(symbol);
+    }
+  });
+  keys.forEach(key => {
+    const propValue: unknown = Reflect.get(value, key);
+    if (predicate(key, propValue)) {
+      Object.assign(result, { [key]: propValue });
+    }
+  });
+  return result as R;
+};
+
+/**
+ * Creates a shallow copy of `obj` containing only the own properties listed in `keys`, runtime counterpart of `Pick`.
+ *
+ * @param obj The source object
+ * @param keys The properties to pick
+ * @returns New object of type `Pick<T, K>`
+ *
+ * @example
+ *   // Expect: { age: 99 }
+ *   pick({ name: 'Yolo', age: 99, visible: true }, 'age');
+ */
+export const pick = <T extends object, K extends keyof T = never>(
+  obj: T,
+  ...keys: K[]
+): Pick<T, K> => {
+  const result = {} as Pick<T, K>;
+  keys.forEach(key => {
+    if (hasOwn(obj, key)) {
+      result[key] = obj[key];
+    }
+  });
+  return result;
+};
+
+/**
+ * Creates a shallow copy of `obj` without the properties listed in `keys`, runtime counterpart of `Omit`.
+ *
+ * @param obj The source object
+ * @param keys The properties to remove
+ * @returns New object of type `Omit<T, K>`
+ *
+ * @example
+ *   // Expect: { name: 'Yolo', visible: true }
+ *   omit({ name: 'Yolo', age: 99, visible: true }, 'age');
+ */
+export const omit = <T extends object, K extends keyof T = never>(
+  obj: T,
+  ...keys: K[]
+): Omit<T, K> => {
+  const omittedKeys = keys.map((key): string | symbol =>
+    typeof key === 'symbol' ? key : String(key)
+  );
+  return pickWhere(obj, key => omittedKeys.indexOf(key) === -1);
+};
+
+/**
+ * Creates a shallow copy of `a` with the own properties of `b` assigned to it (like `Object.assign`), runtime counterpart of `Assign`.
+ *
+ * @param a The target object
+ * @param b The object assigned to `a`
+ * @returns New object of type `Assign<T, U>`
+ *
+ * @example
+ *   // Expect: { name: 'Yolo', age: '99', other: 'value' }
+ *   assign({ name: 'Yolo', age: 99 }, { age: '99', other: 'value' });
+ */
+export const assign = <T extends object, U extends object>(
+  a: T,
+  b: U
+): Assign<T, U> => ({
+  ...pickWhere(a, () => true),
+  ...pickWhere(b, () => true),
+});
+
+/**
+ * Creates a shallow copy of `a` with the values of the properties that also exist in `b` replaced by the ones of `b`, runtime counterpart of `Overwrite`.
+ * Properties of `b` that don't exist in `a` are ignored.
+ *
+ * @param a The target object
+ * @param b The object with the new values
+ * @returns New object of type `Overwrite<T, U>`
+ *
+ * @example
+ *   // Expect: { name: 'Yolo', age: '99' }
+ *   overwrite({ name: 'Yolo', age: 99 }, { age: '99', other: 'value' });
+ */
+export const overwrite = <T extends object, U extends object>(
+  a: T,
+  b: U
+): Overwrite<T, U> => ({
+  ...pickWhere(a, () => true),
+  ...pickWhere(b, key => hasOwn(a, key)),
+});
+
+/**
+ * Creates a shallow copy of `a` without the properties that exist in `b`, runtime counterpart of `Diff`.
+ *
+ * @param a The source object
+ * @param b The object with the properties to remove
+ * @returns New object of type `Diff<T, U>`
+ *
+ * @example
+ *   // Expect: { name: 'Yolo' }
+ *   diff({ name: 'Yolo', age: 99 }, { age: 0 });
+ */
+export const diff = <T extends object, U extends object>(
+  a: T,
+  b: U
+): Diff<T, U> => pickWhere(a, key => !hasOwn(b, key));
+
+/**
+ * Creates a shallow copy of `a` containing only the properties that also exist in `b`, runtime counterpart of `Intersection`.
+ *
+ * @param a The source object
+ * @param b The object with the properties to keep
+ * @returns New object of type `Intersection<T, U>`
+ *
+ * @example
+ *   // Expect: { age: 99 }
+ *   intersection({ name: 'Yolo', age: 99 }, { age: 0 });
+ */
+export const intersection = <T extends object, U extends object>(
+  a: T,
+  b: U
+): Intersection<T, U> => pickWhere(a, key => hasOwn(b, key));
+
+/**
+ * Creates a shallow copy of `obj` containing only the properties whose value passes the type `guard`, runtime counterpart of `PickByValue`.
+ * Properties whose type only partly matches the guard are not part of the returned type, but they are copied when their current value passes it.
+ *
+ * @param obj The source object
+ * @param guard The type guard selecting the values
+ * @returns New object of type `PickByValue<T, V>`
+ *
+ * @example
+ *   const isNumber = (val: unknown): val is number => typeof val === 'number';
+ *
+ *   // Expect: { age: 99 }
+ *   pickByValue({ name: 'Yolo', age: 99 }, isNumber);
+ */
+export const pickByValue = <T extends object, V>(
+  obj: T,
+  guard: Guard<V>
+): PickByValue<T, V> => pickWhere(obj, (_, propValue) => guard(propValue));
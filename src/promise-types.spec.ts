@@ -0,0 +1,174 @@
+import { testType } from '../utils/test-utils';
+import {
+  AsyncReturnType,
+  DeepAwaited,
+  PromiseProps,
+  PromiseValues,
+  SettledResult,
+  promiseAllSettledTyped,
+  promiseProps,
+} from './promise-types';
+import { Equals, Expect, expectType } from './type-assertions';
+
+/**
+ * Fixtures
+ */
+
+interface Thenable<T> {
+  then(onfulfilled: (value: T) => void): void;
+}
+type User = { id: number; name: string };
+type Requests = {
+  user: Promise<User>;
+  tags: Promise<Promise<string[]>>;
+  count: number;
+  avatar?: PromiseLike<Blob>;
+};
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group DeepAwaited
+{
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<Promise<string>>>();
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<Promise<Promise<string>>>>();
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<PromiseLike<number> | boolean>>();
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<Thenable<Promise<Date>>>>();
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<Promise<string | Promise<number>>>>();
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<string | null | undefined>>();
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<any>>();
+  // @dts-jest:pass:snap
+  testType<DeepAwaited<never>>();
+
+  type Cases = [
+    Expect<Equals<DeepAwaited<Promise<string>>, string>>,
+    Expect<Equals<DeepAwaited<Promise<Promise<string>>>, string>>,
+    Expect<
+      Equals<DeepAwaited<PromiseLike<number> | boolean>, number | boolean>
+    >,
+    Expect<Equals<DeepAwaited<Thenable<Promise<Date>>>, Date>>,
+    Expect<
+      Equals<DeepAwaited<Promise<string | Promise<number>>>, string | number>
+    >,
+    Expect<
+      Equals<DeepAwaited<string | null | undefined>, string | null | undefined>
+    >,
+    Expect<Equals<DeepAwaited<any>, any>>,
+    Expect<Equals<DeepAwaited<never>, never>>
+  ];
+}
+
+// @dts-jest:group AsyncReturnType
+{
+  // @dts-jest:pass:snap
+  testType<AsyncReturnType<(id: number) => Promise<User>>>();
+  // @dts-jest:pass:snap
+  testType<AsyncReturnType<() => Promise<Promise<User[]>>>>();
+  // @dts-jest:pass:snap
+  testType<AsyncReturnType<() => string>>();
+
+  type Cases = [
+    Expect<Equals<AsyncReturnType<(id: number) => Promise<User>>, User>>,
+    Expect<Equals<AsyncReturnType<() => Promise<Promise<User[]>>>, User[]>>,
+    Expect<Equals<AsyncReturnType<() => string>, string>>
+  ];
+}
+
+// @dts-jest:group PromiseProps
+{
+  // @dts-jest:pass:snap
+  testType<PromiseProps<Requests>['user']>();
+  // @dts-jest:pass:snap
+  testType<PromiseProps<Requests>['tags']>();
+  // @dts-jest:pass:snap
+  testType<PromiseProps<Requests>['avatar']>();
+  // @dts-jest:pass:snap
+  testType<PromiseProps<[Promise<User>, number]>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        PromiseProps<Requests>,
+        { user: User; tags: string[]; count: number; avatar?: Blob }
+      >
+    >,
+    Expect<Equals<PromiseProps<[Promise<User>, number]>, [User, number]>>
+  ];
+}
+
+// @dts-jest:group PromiseValues
+{
+  // @dts-jest:pass:snap
+  testType<PromiseValues<Requests>>();
+  // @dts-jest:pass:snap
+  testType<PromiseValues<[Promise<User>, number]>>();
+  // @dts-jest:pass:snap
+  testType<PromiseValues<Array<Promise<User>>>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        PromiseValues<Requests>,
+        User | string[] | number | Blob | undefined
+      >
+    >,
+    Expect<Equals<PromiseValues<[Promise<User>, number]>, User | number>>,
+    Expect<Equals<PromiseValues<Array<Promise<User>>>, User>>
+  ];
+}
+
+// @dts-jest:group promiseProps
+it('resolves to the object of values with the same keys', async () => {
+  const user: User = { id: 1, name: 'Yolo' };
+  const data = await promiseProps({
+    user: Promise.resolve(user),
+    tags: Promise.resolve(Promise.resolve(['admin'])),
+    count: 99,
+  });
+
+  // @dts-jest:pass:snap
+  expectType<User>()(data.user);
+  // @dts-jest:pass:snap
+  expectType<string[]>()(data.tags);
+
+  expect(data).toEqual({ user, tags: ['admin'], count: 99 });
+  await expect(
+    promiseProps({ user: Promise.reject(new Error('Not found')), count: 1 })
+  ).rejects.toThrow('Not found');
+  expect(await promiseProps({})).toEqual({});
+});
+
+// @dts-jest:group promiseAllSettledTyped
+it('resolves to the tuple of settled results', async () => {
+  const error = new Error('Not found');
+  const results = await promiseAllSettledTyped([
+    Promise.resolve(1),
+    'Yolo',
+    Promise.reject<User>(error),
+  ]);
+  const [count] = results;
+
+  // @dts-jest:pass:snap
+  expectType<
+    [SettledResult<number>, SettledResult<string>, SettledResult<User>]
+  >()(results);
+  if (count.status === 'fulfilled') {
+    // @dts-jest:pass:snap
+    expectType<number>()(count.value);
+  }
+
+  expect(results).toEqual([
+    { status: 'fulfilled', value: 1 },
+    { status: 'fulfilled', value: 'Yolo' },
+    { status: 'rejected', reason: error },
+  ]);
+  expect(await promiseAllSettledTyped([])).toEqual([]);
+});
@@ -0,0 +1,118 @@
+/**
+ * DeepAwaited
+ * @desc Get the type of the value resolved by type `T`, unwrapping nested promises and thenables like `await` does.
+ * Non-promise types are returned unchanged.
+ * @example
+ *   // Expect: string
+ *   type Response = DeepAwaited<Promise<Promise<string>>>;
+ *
+ *   // Expect: number | boolean
+ *   type Mixed = DeepAwaited<PromiseLike<number> | boolean>;
+ */
+export type DeepAwaited<T> = T extends null | undefined
+  ? T
+  : T extends { then(onfulfilled: infer F, ...args: any[]): any }
+  ? F extends (value: infer V, ...args: any[]) => any
+    ? DeepAwaited<V>
+    : never
+  : T;
+
+/**
+ * AsyncReturnType
+ * @desc Get the type of the value resolved by the return type of function type `F`
+ * @example
+ *   // Expect: { id: number }
+ *   type User = AsyncReturnType<(id: number) => Promise<{ id: number }>>;
+ */
+export type AsyncReturnType<F extends (...args: any[]) => any> = F extends (
+  ...args: any[]
+) => infer R
+  ? DeepAwaited<R>
+  : never;
+
+/**
+ * PromiseProps
+ * @desc From object or tuple type `T` of promises get the type with every promise replaced by its resolved value
+ * @example
+ *   // Expect: { user: User; posts: Post[]; count: number }
+ *   type Data = PromiseProps<{ user: Promise<User>; posts: Promise<Post[]>; count: number }>;
+ */
+export type PromiseProps<T extends object> = {
+  [K in keyof T]: DeepAwaited<T[K]>;
+};
+
+/**
+ * PromiseValues
+ * @desc Get the union type of the values resolved by the promises of object or tuple type `T`
+ * @example
+ *   // Expect: User | Post[] | number
+ *   type Value = PromiseValues<{ user: Promise<User>; posts: Promise<Post[]>; count: number }>;
+ */
+export type PromiseValues<T extends object> = T extends readonly any[]
+  ? DeepAwaited<T[number]>
+  : DeepAwaited<T[keyof T]>;
+
+/**
+ * SettledResult
+ * @desc Result of a settled promise resolving to type `T`, discriminated by the `status` property
+ */
+export type SettledResult<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; reason: unknown };
+
+/**
+ * Waits for every promise of the `props` object and resolves to the object of their values with the same keys,
+ * rejects as soon as any of the promises rejects. Values that are not promises are passed through.
+ *
+ * @param props The object of promises
+ * @returns Promise of the object of resolved values
+ *
+ * @example
+ *   // typeof data === { user: User; posts: Post[] }
+ *   const data = await promiseProps({ user: fetchUser(id), posts: fetchPosts(id) });
+ */
+export const promiseProps = <T extends object>(
+  props: T
+): Promise<PromiseProps<T>> => {
+  const keys = Object.keys(props) as Array<keyof T>;
+  return Promise.all(keys.map(key => props[key])).then(values =>
+    keys.reduce((result, key, index) => {
+      result[key] = values[index] as PromiseProps<T>[keyof T];
+      return result;
+    }, {} as PromiseProps<T>)
+  );
+};
+
+/**
+ * Waits for every promise of the `values` array or tuple to settle and resolves to the tuple of their `SettledResult`, it never rejects.
+ * Same as `Promise.allSettled` (ES2020) but keeps the type of every entry.
+ *
+ * @param values The array or tuple of promises
+ * @returns Promise of the tuple of settled results
+ *
+ * @example
+ *   const [user, posts] = await promiseAllSettledTyped([fetchUser(id), fetchPosts(id)]);
+ *
+ *   if (user.status === 'fulfilled') {
+ *     // typeof user.value === User
+ *   }
+ */
+export const promiseAllSettledTyped = <T extends readonly unknown[] | []>(
+  values: T
+): Promise<{ -readonly [K in keyof T]: SettledResult<DeepAwaited<T[K]>> }> => {
+  const settled: Promise<unknown> = Promise.all(
+    (values as readonly unknown[]).map(value =>
+      Promise.resolve(value).then(
+        (resolved): SettledResult<unknown> => ({
+          status: 'fulfilled',
+          value: resolved,
+        }),
+        (reason): SettledResult<unknown> => ({ status: 'rejected', reason })
+      )
+    )
+  );
+
+  return settled as Promise<
+    { -readonly [K in keyof T]: SettledResult<DeepAwaited<T[K]>> }
+  >;
+};
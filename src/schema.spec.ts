@@ -0,0 +1,221 @@
+import { testType } from '../utils/test-utils';
+import { Brand } from './mapped-types';
+import { Equals, Expect, expectType } from './type-assertions';
+import {
+  Infer,
+  array,
+  brand,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  union,
+} from './schema';
+
+/**
+ * Fixtures
+ */
+
+const Role = union(literal('admin'), literal('user'));
+const Id = union(string(), number());
+const Amount = optional(number());
+const USD = brand(number(), 'USD', value => value >= 0);
+const User = object({
+  name: string(),
+  age: optional(number()),
+  role: Role,
+  tags: array(string()),
+  address: optional(object({ city: string() })),
+});
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group Infer
+{
+  // @dts-jest:pass:snap
+  testType<Infer<typeof Role>>();
+  // @dts-jest:pass:snap
+  testType<Infer<typeof Id>>();
+  // @dts-jest:pass:snap
+  testType<Infer<typeof Amount>>();
+  // @dts-jest:pass:snap
+  testType<Infer<typeof USD>>();
+  // @dts-jest:pass:snap
+  testType<Infer<typeof User>>();
+
+  type Cases = [
+    Expect<Equals<Infer<typeof Role>, 'admin' | 'user'>>,
+    Expect<Equals<Infer<typeof Id>, string | number>>,
+    Expect<Equals<Infer<typeof Amount>, number | undefined>>,
+    Expect<Equals<Infer<typeof USD>, Brand<number, 'USD'>>>,
+    Expect<
+      Equals<
+        Infer<typeof User>,
+        {
+          name: string;
+          role: 'admin' | 'user';
+          tags: string[];
+          age?: number | undefined;
+          address?: { city: string } | undefined;
+        }
+      >
+    >
+  ];
+}
+
+// @dts-jest:group string
+it('validates strings', () => {
+  const result = string().validate('Yolo');
+  if (result.success) {
+    // @dts-jest:pass:snap
+    expectType<string>()(result.value);
+  }
+
+  expect(string().validate('Yolo')).toEqual({ success: true, value: 'Yolo' });
+  expect(string().validate(1)).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'string' }],
+  });
+});
+
+// @dts-jest:group number
+it('validates numbers', () => {
+  expect(number().validate(99)).toEqual({ success: true, value: 99 });
+  expect(number().validate('99')).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'number' }],
+  });
+  expect(number().is(NaN)).toBe(false);
+});
+
+// @dts-jest:group literal
+it('validates literal values', () => {
+  expect(literal('admin').is('admin')).toBe(true);
+  expect(literal('admin').validate('user')).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: '"admin"' }],
+  });
+  expect(literal(null).validate(undefined)).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'null' }],
+  });
+});
+
+// @dts-jest:group object
+it('validates objects with path-aware errors', () => {
+  const user = { name: 'Yolo', role: 'user', tags: [], extra: true };
+
+  expect(User.validate(user)).toEqual({ success: true, value: user });
+  expect(User.validate([])).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'object' }],
+  });
+  expect(
+    User.validate({
+      name: 1,
+      age: '99',
+      role: 'guest',
+      tags: ['a', 2],
+      address: {},
+    })
+  ).toEqual({
+    success: false,
+    errors: [
+      { path: '$.name', expected: 'string' },
+      { path: '$.age', expected: 'number | undefined' },
+      { path: '$.role', expected: '"admin" | "user"' },
+      { path: '$.tags[1]', expected: 'string' },
+      { path: '$.address.city', expected: 'string' },
+    ],
+  });
+});
+
+// @dts-jest:group object - keys
+it('quotes keys which are not identifiers in paths', () => {
+  const Headers = object({
+    'content-type': string(),
+    'x-request-id': optional(string()),
+  });
+
+  expect(Headers.validate({ 'x-request-id': 1 })).toEqual({
+    success: false,
+    errors: [
+      { path: '$["content-type"]', expected: 'string' },
+      { path: '$["x-request-id"]', expected: 'string | undefined' },
+    ],
+  });
+});
+
+// @dts-jest:group array
+it('validates arrays with path-aware errors', () => {
+  const Matrix = array(array(number()));
+
+  const result = Matrix.validate([]);
+  if (result.success) {
+    // @dts-jest:pass:snap
+    expectType<number[][]>()(result.value);
+  }
+
+  expect(Matrix.validate([[1], [2, 3]])).toEqual({
+    success: true,
+    value: [[1], [2, 3]],
+  });
+  expect(Matrix.validate([[1], 2, [3, '4']])).toEqual({
+    success: false,
+    errors: [
+      { path: '$[1]', expected: 'array' },
+      { path: '$[2][1]', expected: 'number' },
+    ],
+  });
+});
+
+// @dts-jest:group union
+it('validates any of the schemas', () => {
+  expect(Id.is('1')).toBe(true);
+  expect(Id.is(1)).toBe(true);
+  expect(Id.validate(true)).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'string | number' }],
+  });
+});
+
+// @dts-jest:group optional
+it('validates undefined values', () => {
+  expect(optional(string()).validate(undefined)).toEqual({
+    success: true,
+    value: undefined,
+  });
+  expect(optional(string()).validate(null)).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'string | undefined' }],
+  });
+});
+
+// @dts-jest:group brand
+it('validates branded values', () => {
+  expect(USD.validate(10)).toEqual({ success: true, value: 10 });
+  expect(USD.validate('10')).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'number' }],
+  });
+  expect(USD.validate(-5)).toEqual({
+    success: false,
+    errors: [{ path: '$', expected: 'USD' }],
+  });
+  expect(brand(string(), 'Name').is('Yolo')).toBe(true);
+});
+
+// @dts-jest:group Schema - is
+it('narrows to the inferred type', () => {
+  const value: unknown = { name: 'Yolo', role: 'admin', tags: [] };
+
+  if (User.is(value)) {
+    // @dts-jest:pass:snap
+    expectType<'admin' | 'user'>()(value.role);
+  }
+
+  expect(User.is(value)).toBe(true);
+});
@@ -0,0 +1,250 @@
+import { Primitive } from './aliases-and-guards';
+import { Brand, Optional } from './mapped-types';
+
+/**
+ * ValidationError
+ * @desc Error of a value not matching a schema, with the JSON path of the invalid value and the expected type
+ * @example
+ *   // Expect: { path: '$.items[0].id', expected: 'number' }
+ *   const error: ValidationError = { path: '$.items[0].id', expected: 'number' };
+ */
+export interface ValidationError {
+  /** JSON path of the invalid value, `$` is the validated value itself */
+  path: string;
+  /** Description of the expected type, e.g. `string` or `"admin" | "user"` */
+  expected: string;
+}
+
+/**
+ * ValidationResult
+ * @desc Result of `Schema<T>.validate()`, either the valid value of type `T` or the list of errors
+ */
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; errors: ValidationError[] };
+
+/**
+ * Schema
+ * @desc Runtime validator of values of type `T`, created by schema combinators like `string()` or `object()`
+ */
+export interface Schema<T> {
+  /** Description of the expected type used in validation errors */
+  readonly expected: string;
+  /** Validate the `value`, returns the typed value or the list of errors */
+  validate(value: unknown): ValidationResult<T>;
+  /** Test if the `value` is valid */
+  is(value: unknown): value is T;
+}
+
+/**
+ * OptionalSchema
+ * @desc Schema of a value of type `T` or `undefined`, it makes a property optional in `object()` schemas
+ */
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+/**
+ * Infer
+ * @desc Get the static type of values validated by schema `S`
+ * @example
+ *   const User = object({ name: string(), age: optional(number()) });
+ *
+ *   // Expect: { name: string; age?: number | undefined; }
+ *   type User = Infer<typeof User>;
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** @private */
+type _OptionalShapeKeys<S> = {
+  [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never;
+}[keyof S];
+
+/** @private */
+type _InferShape<S extends Record<string, Schema<any>>> = Optional<
+  { [K in keyof S]: Infer<S[K]> },
+  _OptionalShapeKeys<S>
+> extends infer I
+  ? { [K in keyof I]: I[K] }
+  : never;
+
+/** @private */
+const identifierRegExp = /^[A-Za-z_$][\w$]*$/;
+
+/** @private */
+const prependPath = (segment: string | number, errors: ValidationError[]) =>
+  errors.map(({ path, expected }) => ({
+    path: `$${
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : identifierRegExp.test(segment)
+        ? `.${segment}`
+        : `[${JSON.stringify(segment)}]`
+    }${path.slice(1)}`,
+    expected,
+  }));
+
+/** @private */
+const errorsOf = <T>(schema: Schema<T>, value: unknown) => {
+  const result = schema.validate(value);
+  return result.success ? [] : result.errors;
+};
+
+/** @private */
+const createSchema = <T>(
+  expected: string,
+  check: (value: unknown) => ValidationError[]
+): Schema<T> => ({
+  expected,
+  validate: value => {
+    const errors = check(value);
+    return errors.length > 0
+      ? { success: false, errors }
+      : { success: true, value: value as T };
+  },
+  is: (value): value is T => check(value).length === 0,
+});
+
+/** @private */
+const createTypeOfSchema = <T>(
+  expected: string,
+  test: (value: unknown) => boolean
+) =>
+  createSchema<T>(expected, value =>
+    test(value) ? [] : [{ path: '$', expected }]
+  );
+
+/**
+ * Creates a schema of string values.
+ * @example
+ *   // Expect: { success: true, value: 'Yolo' }
+ *   string().validate('Yolo');
+ */
+// tslint:disable-next-line:variable-name
+export const string = () =>
+  createTypeOfSchema<string>('string', value => typeof value === 'string');
+
+/**
+ * Creates a schema of number values, `NaN` is not valid.
+ * @example
+ *   // Expect: { success: false, errors: [{ path: '$', expected: 'number' }] }
+ *   number().validate('99');
+ */
+// tslint:disable-next-line:variable-name
+export const number = () =>
+  createTypeOfSchema<number>(
+    'number',
+    value => typeof value === 'number' && value === value
+  );
+
+/**
+ * Creates a schema of a single literal `value`, compared with strict equality.
+ * @example
+ *   // Expect: Schema<"admin">
+ *   const Admin = literal('admin');
+ */
+export const literal = <L extends Primitive>(value: L) =>
+  createTypeOfSchema<L>(
+    typeof value === 'string' ? JSON.stringify(value) : String(value),
+    input => input === value
+  );
+
+/**
+ * Creates a schema of objects with every property of the given `shape` valid. Other properties are allowed.
+ * Properties with `optional()` schemas become optional properties.
+ * @example
+ *   const User = object({ name: string(), age: optional(number()) });
+ *
+ *   // Expect: { success: false, errors: [{ path: '$.name', expected: 'string' }] }
+ *   User.validate({ age: 99 });
+ */
+export const object = <S extends Record<string, Schema<any>>>(shape: S) =>
+  createSchema<_InferShape<S>>('object', value => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return [{ path: '$', expected: 'object' }];
+    }
+    return Object.keys(shape).reduce<ValidationError[]>(
+      (errors, key) =>
+        errors.concat(
+          prependPath(
+            key,
+            errorsOf(shape[key], (value as Record<string, unknown>)[key])
+          )
+        ),
+      []
+    );
+  });
+
+/**
+ * Creates a schema of arrays with every element valid for the given `item` schema.
+ * @example
+ *   // Expect: { success: false, errors: [{ path: '$[1]', expected: 'number' }] }
+ *   array(number()).validate([1, '2']);
+ */
+export const array = <T>(item: Schema<T>) =>
+  createSchema<T[]>('array', value => {
+    if (!Array.isArray(value)) {
+      return [{ path: '$', expected: 'array' }];
+    }
+    return value.reduce<ValidationError[]>(
+      (errors, element, index) =>
+        errors.concat(prependPath(index, errorsOf(item, element))),
+      []
+    );
+  });
+
+/**
+ * Creates a schema of values valid for any of the given `schemas`.
+ * @example
+ *   const Role = union(literal('admin'), literal('user'));
+ *
+ *   // Expect: { success: false, errors: [{ path: '$', expected: '"admin" | "user"' }] }
+ *   Role.validate('guest');
+ */
+export const union = <S extends Array<Schema<any>>>(...schemas: S) => {
+  const expected = schemas.map(schema => schema.expected).join(' | ');
+  return createTypeOfSchema<Infer<S[number]>>(expected, value =>
+    schemas.some(schema => schema.is(value))
+  );
+};
+
+/**
+ * Creates a schema of `undefined` or a value valid for the given `schema`, it makes a property optional in `object()` schemas.
+ * @example
+ *   // Expect: { success: true, value: undefined }
+ *   optional(string()).validate(undefined);
+ */
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => {
+  const expected = `${schema.expected} | undefined`;
+  return {
+    ...createSchema<T | undefined>(expected, value =>
+      value === undefined
+        ? []
+        : errorsOf(schema, value).map(error =>
+            error.path === '$' ? { path: '$', expected } : error
+          )
+    ),
+    optional: true,
+  };
+};
+
+/**
+ * Creates a schema of nominal type `Brand<T, U>` with the values valid for the given `schema` and passing the optional `validate` function.
+ * @example
+ *   const USD = brand(number(), 'USD', value => value >= 0);
+ *
+ *   // Expect: { success: false, errors: [{ path: '$', expected: 'USD' }] }
+ *   USD.validate(-5);
+ */
+export const brand = <T, U extends string>(
+  schema: Schema<T>,
+  name: U,
+  validate: (value: T) => boolean = () => true
+) =>
+  createSchema<Brand<T, U>>(name, value => {
+    const errors = errorsOf(schema, value);
+    if (errors.length > 0) {
+      return errors;
+    }
+    return validate(value as T) ? [] : [{ path: '$', expected: name }];
+  });
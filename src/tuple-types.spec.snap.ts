@@ -0,0 +1,395 @@
+import { testType } from '../utils/test-utils';
+import { Equals, Expect } from './type-assertions';
+import {
+  Head,
+  Tail,
+  Last,
+  Init,
+  Prepend,
+  Append,
+  Concat,
+  Reverse,
+  Length,
+  Drop,
+  Take,
+  TupleToUnion,
+  Indices,
+} from './tuple-types';
+
+/**
+ * Fixtures
+ */
+
+type Args = [string, number, boolean];
+type OptionalArgs = [string, number?, boolean?];
+type ReadonlyArgs = readonly [string, number];
+type RestArgs = [string, ...number[]];
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group Head
+{
+  // @dts-jest:pass:snap -> string
+  testType<Head<Args>>();
+  // @dts-jest:pass:snap -> never
+  testType<Head<[]>>();
+  // @dts-jest:pass:snap -> string
+  testType<Head<OptionalArgs>>();
+  // @dts-jest:pass:snap -> string
+  testType<Head<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> string
+  testType<Head<RestArgs>>();
+  // @dts-jest:pass:snap -> string | undefined
+  testType<Head<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Head<Args>, string>>,
+    Expect<Equals<Head<[]>, never>>,
+    Expect<Equals<Head<OptionalArgs>, string>>,
+    Expect<Equals<Head<ReadonlyArgs>, string>>,
+    Expect<Equals<Head<RestArgs>, string>>,
+    Expect<Equals<Head<string[]>, string | undefined>>
+  ];
+}
+
+// @dts-jest:group Tail
+{
+  // @dts-jest:pass:snap -> [number, boolean]
+  testType<Tail<Args>>();
+  // @dts-jest:pass:snap -> []
+  testType<Tail<[]>>();
+  // @dts-jest:pass:snap -> [(number | undefined)?, (boolean | undefined)?]
+  testType<Tail<OptionalArgs>>();
+  // @dts-jest:pass:snap -> readonly [number]
+  testType<Tail<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> number[]
+  testType<Tail<RestArgs>>();
+  // @dts-jest:pass:snap -> string[]
+  testType<Tail<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Tail<Args>, [number, boolean]>>,
+    Expect<Equals<Tail<[]>, []>>,
+    Expect<
+      Equals<
+        Tail<OptionalArgs>,
+        [(number | undefined)?, (boolean | undefined)?]
+      >
+    >,
+    Expect<Equals<Tail<ReadonlyArgs>, readonly [number]>>,
+    Expect<Equals<Tail<RestArgs>, number[]>>,
+    Expect<Equals<Tail<string[]>, string[]>>
+  ];
+}
+
+// @dts-jest:group Last
+{
+  // @dts-jest:pass:snap -> boolean
+  testType<Last<Args>>();
+  // @dts-jest:pass:snap -> never
+  testType<Last<[]>>();
+  // @dts-jest:pass:snap -> boolean | undefined
+  testType<Last<OptionalArgs>>();
+  // @dts-jest:pass:snap -> number
+  testType<Last<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> string | number
+  testType<Last<RestArgs>>();
+  // @dts-jest:pass:snap -> string | undefined
+  testType<Last<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Last<Args>, boolean>>,
+    Expect<Equals<Last<[]>, never>>,
+    Expect<Equals<Last<OptionalArgs>, boolean | undefined>>,
+    Expect<Equals<Last<ReadonlyArgs>, number>>,
+    Expect<Equals<Last<RestArgs>, string | number>>,
+    Expect<Equals<Last<string[]>, string | undefined>>
+  ];
+}
+
+// @dts-jest:group Init
+{
+  // @dts-jest:pass:snap -> [string, number]
+  testType<Init<Args>>();
+  // @dts-jest:pass:snap -> []
+  testType<Init<[]>>();
+  // @dts-jest:pass:snap -> [string, (number | undefined)?]
+  testType<Init<OptionalArgs>>();
+  // @dts-jest:pass:snap -> readonly [string]
+  testType<Init<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> [string, ...number[]]
+  testType<Init<RestArgs>>();
+  // @dts-jest:pass:snap -> string[]
+  testType<Init<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Init<Args>, [string, number]>>,
+    Expect<Equals<Init<[]>, []>>,
+    Expect<Equals<Init<OptionalArgs>, [string, (number | undefined)?]>>,
+    Expect<Equals<Init<ReadonlyArgs>, readonly [string]>>,
+    Expect<Equals<Init<RestArgs>, [string, ...number[]]>>,
+    Expect<Equals<Init<string[]>, string[]>>
+  ];
+}
+
+// @dts-jest:group Prepend
+{
+  // @dts-jest:pass:snap -> [Date, string, number, boolean]
+  testType<Prepend<Args, Date>>();
+  // @dts-jest:pass:snap -> [Date]
+  testType<Prepend<[], Date>>();
+  // @dts-jest:pass:snap -> [Date, string, (number | undefined)?, (boolean | undefined)?]
+  testType<Prepend<OptionalArgs, Date>>();
+  // @dts-jest:pass:snap -> readonly [Date, string, number]
+  testType<Prepend<ReadonlyArgs, Date>>();
+  // @dts-jest:pass:snap -> [Date, string, ...number[]]
+  testType<Prepend<RestArgs, Date>>();
+
+  type Cases = [
+    Expect<Equals<Prepend<Args, Date>, [Date, string, number, boolean]>>,
+    Expect<Equals<Prepend<[], Date>, [Date]>>,
+    Expect<
+      Equals<
+        Prepend<OptionalArgs, Date>,
+        [Date, string, (number | undefined)?, (boolean | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<Prepend<ReadonlyArgs, Date>, readonly [Date, string, number]>
+    >,
+    Expect<Equals<Prepend<RestArgs, Date>, [Date, string, ...number[]]>>
+  ];
+}
+
+// @dts-jest:group Append
+{
+  // @dts-jest:pass:snap -> [string, number, boolean, Date]
+  testType<Append<Args, Date>>();
+  // @dts-jest:pass:snap -> [Date]
+  testType<Append<[], Date>>();
+  // @dts-jest:pass:snap -> [string, number | undefined, boolean | undefined, Date]
+  testType<Append<OptionalArgs, Date>>();
+  // @dts-jest:pass:snap -> readonly [string, number, Date]
+  testType<Append<ReadonlyArgs, Date>>();
+  // @dts-jest:pass:snap -> [string, ...(number | Date)[]]
+  testType<Append<RestArgs, Date>>();
+
+  type Cases = [
+    Expect<Equals<Append<Args, Date>, [string, number, boolean, Date]>>,
+    Expect<Equals<Append<[], Date>, [Date]>>,
+    Expect<
+      Equals<
+        Append<OptionalArgs, Date>,
+        [string, number | undefined, boolean | undefined, Date]
+      >
+    >,
+    Expect<Equals<Append<ReadonlyArgs, Date>, readonly [string, number, Date]>>,
+    Expect<Equals<Append<RestArgs, Date>, [string, ...Array<number | Date>]>>
+  ];
+}
+
+// @dts-jest:group Concat
+{
+  // @dts-jest:pass:snap -> [string, number, boolean, Date]
+  testType<Concat<Args, [Date]>>();
+  // @dts-jest:pass:snap -> [string, number, boolean]
+  testType<Concat<[], Args>>();
+  // @dts-jest:pass:snap -> [string, number, boolean, string, (number | undefined)?, (boolean | undefined)?]
+  testType<Concat<Args, OptionalArgs>>();
+  // @dts-jest:pass:snap -> readonly [string, number, string, number, boolean]
+  testType<Concat<ReadonlyArgs, Args>>();
+  // @dts-jest:pass:snap -> [string, number, boolean, string, ...number[]]
+  testType<Concat<Args, RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Concat<Args, [Date]>, [string, number, boolean, Date]>>,
+    Expect<Equals<Concat<[], Args>, [string, number, boolean]>>,
+    Expect<
+      Equals<
+        Concat<Args, OptionalArgs>,
+        [
+          string,
+          number,
+          boolean,
+          string,
+          (number | undefined)?,
+          (boolean | undefined)?
+        ]
+      >
+    >,
+    Expect<
+      Equals<
+        Concat<ReadonlyArgs, Args>,
+        readonly [string, number, string, number, boolean]
+      >
+    >,
+    Expect<
+      Equals<
+        Concat<Args, RestArgs>,
+        [string, number, boolean, string, ...number[]]
+      >
+    >
+  ];
+}
+
+// @dts-jest:group Reverse
+{
+  // @dts-jest:pass:snap -> [boolean, number, string]
+  testType<Reverse<Args>>();
+  // @dts-jest:pass:snap -> []
+  testType<Reverse<[]>>();
+  // @dts-jest:pass:snap -> [boolean | undefined, number | undefined, string]
+  testType<Reverse<OptionalArgs>>();
+  // @dts-jest:pass:snap -> readonly [number, string]
+  testType<Reverse<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> (string | number)[]
+  testType<Reverse<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Reverse<Args>, [boolean, number, string]>>,
+    Expect<Equals<Reverse<[]>, []>>,
+    Expect<
+      Equals<
+        Reverse<OptionalArgs>,
+        [boolean | undefined, number | undefined, string]
+      >
+    >,
+    Expect<Equals<Reverse<ReadonlyArgs>, readonly [number, string]>>,
+    Expect<Equals<Reverse<RestArgs>, Array<string | number>>>
+  ];
+}
+
+// @dts-jest:group Length
+{
+  // @dts-jest:pass:snap -> 3
+  testType<Length<Args>>();
+  // @dts-jest:pass:snap -> 0
+  testType<Length<[]>>();
+  // @dts-jest:pass:snap -> 3 | 1 | 2
+  testType<Length<OptionalArgs>>();
+  // @dts-jest:pass:snap -> 2
+  testType<Length<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> number
+  testType<Length<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Length<Args>, 3>>,
+    Expect<Equals<Length<[]>, 0>>,
+    Expect<Equals<Length<OptionalArgs>, 3 | 1 | 2>>,
+    Expect<Equals<Length<ReadonlyArgs>, 2>>,
+    Expect<Equals<Length<RestArgs>, number>>
+  ];
+}
+
+// @dts-jest:group Drop
+{
+  // @dts-jest:pass:snap -> [boolean]
+  testType<Drop<Args, 2>>();
+  // @dts-jest:pass:snap -> []
+  testType<Drop<Args, 5>>();
+  // @dts-jest:pass:snap -> [(number | undefined)?, (boolean | undefined)?]
+  testType<Drop<OptionalArgs, 1>>();
+  // @dts-jest:pass:snap -> readonly [number]
+  testType<Drop<ReadonlyArgs, 1>>();
+  // @dts-jest:pass:snap -> number[]
+  testType<Drop<RestArgs, 2>>();
+  // @dts-jest:pass:snap -> Args
+  testType<Drop<Args, number>>();
+
+  type Cases = [
+    Expect<Equals<Drop<Args, 2>, [boolean]>>,
+    Expect<Equals<Drop<Args, 5>, []>>,
+    Expect<
+      Equals<
+        Drop<OptionalArgs, 1>,
+        [(number | undefined)?, (boolean | undefined)?]
+      >
+    >,
+    Expect<Equals<Drop<ReadonlyArgs, 1>, readonly [number]>>,
+    Expect<Equals<Drop<RestArgs, 2>, number[]>>,
+    Expect<Equals<Drop<Args, number>, Args>>
+  ];
+}
+
+// @dts-jest:group Take
+{
+  // @dts-jest:pass:snap -> [string, number]
+  testType<Take<Args, 2>>();
+  // @dts-jest:pass:snap -> [string, number, boolean]
+  testType<Take<Args, 5>>();
+  // @dts-jest:pass:snap -> [string]
+  testType<Take<OptionalArgs, 1>>();
+  // @dts-jest:pass:snap -> readonly [string, number]
+  testType<Take<ReadonlyArgs, 2>>();
+  // @dts-jest:pass:snap -> [string, (number | undefined)?, (number | undefined)?]
+  testType<Take<RestArgs, 3>>();
+  // @dts-jest:pass:snap -> [(string | undefined)?, (string | undefined)?]
+  testType<Take<string[], 2>>();
+  // @dts-jest:pass:snap -> [string, number, boolean]
+  testType<Take<Args, number>>();
+
+  type Cases = [
+    Expect<Equals<Take<Args, 2>, [string, number]>>,
+    Expect<Equals<Take<Args, 5>, [string, number, boolean]>>,
+    Expect<Equals<Take<OptionalArgs, 1>, [string]>>,
+    Expect<Equals<Take<ReadonlyArgs, 2>, readonly [string, number]>>,
+    Expect<
+      Equals<
+        Take<RestArgs, 3>,
+        [string, (number | undefined)?, (number | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<Take<string[], 2>, [(string | undefined)?, (string | undefined)?]>
+    >,
+    Expect<Equals<Take<Args, number>, [string, number, boolean]>>
+  ];
+}
+
+// @dts-jest:group TupleToUnion
+{
+  // @dts-jest:pass:snap -> string | number | boolean
+  testType<TupleToUnion<Args>>();
+  // @dts-jest:pass:snap -> never
+  testType<TupleToUnion<[]>>();
+  // @dts-jest:pass:snap -> string | number | boolean | undefined
+  testType<TupleToUnion<OptionalArgs>>();
+  // @dts-jest:pass:snap -> string | number
+  testType<TupleToUnion<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> string | number
+  testType<TupleToUnion<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<TupleToUnion<Args>, string | number | boolean>>,
+    Expect<Equals<TupleToUnion<[]>, never>>,
+    Expect<
+      Equals<TupleToUnion<OptionalArgs>, string | number | boolean | undefined>
+    >,
+    Expect<Equals<TupleToUnion<ReadonlyArgs>, string | number>>,
+    Expect<Equals<TupleToUnion<RestArgs>, string | number>>
+  ];
+}
+
+// @dts-jest:group Indices
+{
+  // @dts-jest:pass:snap -> 0 | 1 | 2
+  testType<Indices<Args>>();
+  // @dts-jest:pass:snap -> never
+  testType<Indices<[]>>();
+  // @dts-jest:pass:snap -> 0 | 1 | 2
+  testType<Indices<OptionalArgs>>();
+  // @dts-jest:pass:snap -> 0 | 1
+  testType<Indices<ReadonlyArgs>>();
+  // @dts-jest:pass:snap -> number
+  testType<Indices<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Indices<Args>, 0 | 1 | 2>>,
+    Expect<Equals<Indices<[]>, never>>,
+    Expect<Equals<Indices<OptionalArgs>, 0 | 1 | 2>>,
+    Expect<Equals<Indices<ReadonlyArgs>, 0 | 1>>,
+    Expect<Equals<Indices<RestArgs>, number>>
+  ];
+}
@@ -0,0 +1,395 @@
+import { testType } from '../utils/test-utils';
+import { Equals, Expect } from './type-assertions';
+import {
+  Head,
+  Tail,
+  Last,
+  Init,
+  Prepend,
+  Append,
+  Concat,
+  Reverse,
+  Length,
+  Drop,
+  Take,
+  TupleToUnion,
+  Indices,
+} from './tuple-types';
+
+/**
+ * Fixtures
+ */
+
+type Args = [string, number, boolean];
+type OptionalArgs = [string, number?, boolean?];
+type ReadonlyArgs = readonly [string, number];
+type RestArgs = [string, ...number[]];
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group Head
+{
+  // @dts-jest:pass:snap
+  testType<Head<Args>>();
+  // @dts-jest:pass:snap
+  testType<Head<[]>>();
+  // @dts-jest:pass:snap
+  testType<Head<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Head<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<Head<RestArgs>>();
+  // @dts-jest:pass:snap
+  testType<Head<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Head<Args>, string>>,
+    Expect<Equals<Head<[]>, never>>,
+    Expect<Equals<Head<OptionalArgs>, string>>,
+    Expect<Equals<Head<ReadonlyArgs>, string>>,
+    Expect<Equals<Head<RestArgs>, string>>,
+    Expect<Equals<Head<string[]>, string | undefined>>
+  ];
+}
+
+// @dts-jest:group Tail
+{
+  // @dts-jest:pass:snap
+  testType<Tail<Args>>();
+  // @dts-jest:pass:snap
+  testType<Tail<[]>>();
+  // @dts-jest:pass:snap
+  testType<Tail<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Tail<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<Tail<RestArgs>>();
+  // @dts-jest:pass:snap
+  testType<Tail<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Tail<Args>, [number, boolean]>>,
+    Expect<Equals<Tail<[]>, []>>,
+    Expect<
+      Equals<
+        Tail<OptionalArgs>,
+        [(number | undefined)?, (boolean | undefined)?]
+      >
+    >,
+    Expect<Equals<Tail<ReadonlyArgs>, readonly [number]>>,
+    Expect<Equals<Tail<RestArgs>, number[]>>,
+    Expect<Equals<Tail<string[]>, string[]>>
+  ];
+}
+
+// @dts-jest:group Last
+{
+  // @dts-jest:pass:snap
+  testType<Last<Args>>();
+  // @dts-jest:pass:snap
+  testType<Last<[]>>();
+  // @dts-jest:pass:snap
+  testType<Last<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Last<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<Last<RestArgs>>();
+  // @dts-jest:pass:snap
+  testType<Last<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Last<Args>, boolean>>,
+    Expect<Equals<Last<[]>, never>>,
+    Expect<Equals<Last<OptionalArgs>, boolean | undefined>>,
+    Expect<Equals<Last<ReadonlyArgs>, number>>,
+    Expect<Equals<Last<RestArgs>, string | number>>,
+    Expect<Equals<Last<string[]>, string | undefined>>
+  ];
+}
+
+// @dts-jest:group Init
+{
+  // @dts-jest:pass:snap
+  testType<Init<Args>>();
+  // @dts-jest:pass:snap
+  testType<Init<[]>>();
+  // @dts-jest:pass:snap
+  testType<Init<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Init<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<Init<RestArgs>>();
+  // @dts-jest:pass:snap
+  testType<Init<string[]>>();
+
+  type Cases = [
+    Expect<Equals<Init<Args>, [string, number]>>,
+    Expect<Equals<Init<[]>, []>>,
+    Expect<Equals<Init<OptionalArgs>, [string, (number | undefined)?]>>,
+    Expect<Equals<Init<ReadonlyArgs>, readonly [string]>>,
+    Expect<Equals<Init<RestArgs>, [string, ...number[]]>>,
+    Expect<Equals<Init<string[]>, string[]>>
+  ];
+}
+
+// @dts-jest:group Prepend
+{
+  // @dts-jest:pass:snap
+  testType<Prepend<Args, Date>>();
+  // @dts-jest:pass:snap
+  testType<Prepend<[], Date>>();
+  // @dts-jest:pass:snap
+  testType<Prepend<OptionalArgs, Date>>();
+  // @dts-jest:pass:snap
+  testType<Prepend<ReadonlyArgs, Date>>();
+  // @dts-jest:pass:snap
+  testType<Prepend<RestArgs, Date>>();
+
+  type Cases = [
+    Expect<Equals<Prepend<Args, Date>, [Date, string, number, boolean]>>,
+    Expect<Equals<Prepend<[], Date>, [Date]>>,
+    Expect<
+      Equals<
+        Prepend<OptionalArgs, Date>,
+        [Date, string, (number | undefined)?, (boolean | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<Prepend<ReadonlyArgs, Date>, readonly [Date, string, number]>
+    >,
+    Expect<Equals<Prepend<RestArgs, Date>, [Date, string, ...number[]]>>
+  ];
+}
+
+// @dts-jest:group Append
+{
+  // @dts-jest:pass:snap
+  testType<Append<Args, Date>>();
+  // @dts-jest:pass:snap
+  testType<Append<[], Date>>();
+  // @dts-jest:pass:snap
+  testType<Append<OptionalArgs, Date>>();
+  // @dts-jest:pass:snap
+  testType<Append<ReadonlyArgs, Date>>();
+  // @dts-jest:pass:snap
+  testType<Append<RestArgs, Date>>();
+
+  type Cases = [
+    Expect<Equals<Append<Args, Date>, [string, number, boolean, Date]>>,
+    Expect<Equals<Append<[], Date>, [Date]>>,
+    Expect<
+      Equals<
+        Append<OptionalArgs, Date>,
+        [string, number | undefined, boolean | undefined, Date]
+      >
+    >,
+    Expect<Equals<Append<ReadonlyArgs, Date>, readonly [string, number, Date]>>,
+    Expect<Equals<Append<RestArgs, Date>, [string, ...Array<number | Date>]>>
+  ];
+}
+
+// @dts-jest:group Concat
+{
+  // @dts-jest:pass:snap
+  testType<Concat<Args, [Date]>>();
+  // @dts-jest:pass:snap
+  testType<Concat<[], Args>>();
+  // @dts-jest:pass:snap
+  testType<Concat<Args, OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Concat<ReadonlyArgs, Args>>();
+  // @dts-jest:pass:snap
+  testType<Concat<Args, RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Concat<Args, [Date]>, [string, number, boolean, Date]>>,
+    Expect<Equals<Concat<[], Args>, [string, number, boolean]>>,
+    Expect<
+      Equals<
+        Concat<Args, OptionalArgs>,
+        [
+          string,
+          number,
+          boolean,
+          string,
+          (number | undefined)?,
+          (boolean | undefined)?
+        ]
+      >
+    >,
+    Expect<
+      Equals<
+        Concat<ReadonlyArgs, Args>,
+        readonly [string, number, string, number, boolean]
+      >
+    >,
+    Expect<
+      Equals<
+        Concat<Args, RestArgs>,
+        [string, number, boolean, string, ...number[]]
+      >
+    >
+  ];
+}
+
+// @dts-jest:group Reverse
+{
+  // @dts-jest:pass:snap
+  testType<Reverse<Args>>();
+  // @dts-jest:pass:snap
+  testType<Reverse<[]>>();
+  // @dts-jest:pass:snap
+  testType<Reverse<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Reverse<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<Reverse<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Reverse<Args>, [boolean, number, string]>>,
+    Expect<Equals<Reverse<[]>, []>>,
+    Expect<
+      Equals<
+        Reverse<OptionalArgs>,
+        [boolean | undefined, number | undefined, string]
+      >
+    >,
+    Expect<Equals<Reverse<ReadonlyArgs>, readonly [number, string]>>,
+    Expect<Equals<Reverse<RestArgs>, Array<string | number>>>
+  ];
+}
+
+// @dts-jest:group Length
+{
+  // @dts-jest:pass:snap
+  testType<Length<Args>>();
+  // @dts-jest:pass:snap
+  testType<Length<[]>>();
+  // @dts-jest:pass:snap
+  testType<Length<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Length<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<Length<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Length<Args>, 3>>,
+    Expect<Equals<Length<[]>, 0>>,
+    Expect<Equals<Length<OptionalArgs>, 3 | 1 | 2>>,
+    Expect<Equals<Length<ReadonlyArgs>, 2>>,
+    Expect<Equals<Length<RestArgs>, number>>
+  ];
+}
+
+// @dts-jest:group Drop
+{
+  // @dts-jest:pass:snap
+  testType<Drop<Args, 2>>();
+  // @dts-jest:pass:snap
+  testType<Drop<Args, 5>>();
+  // @dts-jest:pass:snap
+  testType<Drop<OptionalArgs, 1>>();
+  // @dts-jest:pass:snap
+  testType<Drop<ReadonlyArgs, 1>>();
+  // @dts-jest:pass:snap
+  testType<Drop<RestArgs, 2>>();
+  // @dts-jest:pass:snap
+  testType<Drop<Args, number>>();
+
+  type Cases = [
+    Expect<Equals<Drop<Args, 2>, [boolean]>>,
+    Expect<Equals<Drop<Args, 5>, []>>,
+    Expect<
+      Equals<
+        Drop<OptionalArgs, 1>,
+        [(number | undefined)?, (boolean | undefined)?]
+      >
+    >,
+    Expect<Equals<Drop<ReadonlyArgs, 1>, readonly [number]>>,
+    Expect<Equals<Drop<RestArgs, 2>, number[]>>,
+    Expect<Equals<Drop<Args, number>, Args>>
+  ];
+}
+
+// @dts-jest:group Take
+{
+  // @dts-jest:pass:snap
+  testType<Take<Args, 2>>();
+  // @dts-jest:pass:snap
+  testType<Take<Args, 5>>();
+  // @dts-jest:pass:snap
+  testType<Take<OptionalArgs, 1>>();
+  // @dts-jest:pass:snap
+  testType<Take<ReadonlyArgs, 2>>();
+  // @dts-jest:pass:snap
+  testType<Take<RestArgs, 3>>();
+  // @dts-jest:pass:snap
+  testType<Take<string[], 2>>();
+  // @dts-jest:pass:snap
+  testType<Take<Args, number>>();
+
+  type Cases = [
+    Expect<Equals<Take<Args, 2>, [string, number]>>,
+    Expect<Equals<Take<Args, 5>, [string, number, boolean]>>,
+    Expect<Equals<Take<OptionalArgs, 1>, [string]>>,
+    Expect<Equals<Take<ReadonlyArgs, 2>, readonly [string, number]>>,
+    Expect<
+      Equals<
+        Take<RestArgs, 3>,
+        [string, (number | undefined)?, (number | undefined)?]
+      >
+    >,
+    Expect<
+      Equals<Take<string[], 2>, [(string | undefined)?, (string | undefined)?]>
+    >,
+    Expect<Equals<Take<Args, number>, [string, number, boolean]>>
+  ];
+}
+
+// @dts-jest:group TupleToUnion
+{
+  // @dts-jest:pass:snap
+  testType<TupleToUnion<Args>>();
+  // @dts-jest:pass:snap
+  testType<TupleToUnion<[]>>();
+  // @dts-jest:pass:snap
+  testType<TupleToUnion<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<TupleToUnion<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<TupleToUnion<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<TupleToUnion<Args>, string | number | boolean>>,
+    Expect<Equals<TupleToUnion<[]>, never>>,
+    Expect<
+      Equals<TupleToUnion<OptionalArgs>, string | number | boolean | undefined>
+    >,
+    Expect<Equals<TupleToUnion<ReadonlyArgs>, string | number>>,
+    Expect<Equals<TupleToUnion<RestArgs>, string | number>>
+  ];
+}
+
+// @dts-jest:group Indices
+{
+  // @dts-jest:pass:snap
+  testType<Indices<Args>>();
+  // @dts-jest:pass:snap
+  testType<Indices<[]>>();
+  // @dts-jest:pass:snap
+  testType<Indices<OptionalArgs>>();
+  // @dts-jest:pass:snap
+  testType<Indices<ReadonlyArgs>>();
+  // @dts-jest:pass:snap
+  testType<Indices<RestArgs>>();
+
+  type Cases = [
+    Expect<Equals<Indices<Args>, 0 | 1 | 2>>,
+    Expect<Equals<Indices<[]>, never>>,
+    Expect<Equals<Indices<OptionalArgs>, 0 | 1 | 2>>,
+    Expect<Equals<Indices<ReadonlyArgs>, 0 | 1>>,
+    Expect<Equals<Indices<RestArgs>, number>>
+  ];
+}
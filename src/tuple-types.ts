@@ -0,0 +1,242 @@
+/** @private */
+type _PreserveReadonly<T, R extends unknown[]> = T extends unknown[]
+  ? R
+  : readonly [...R];
+
+/** @private */
+type _IsArray<T extends readonly unknown[]> = number extends T['length']
+  ? true
+  : false;
+
+/**
+ * Head
+ * @desc Get the type of the first element of tuple `T`, `undefined` is added when the element is optional or a rest element
+ * @example
+ *   // Expect: string
+ *   type First = Head<[string, number]>;
+ *
+ *   // Expect: string | undefined
+ *   type MaybeFirst = Head<[string?]>;
+ */
+export type Head<T extends readonly unknown[]> = T extends readonly []
+  ? never
+  : T extends readonly [infer H, ...unknown[]]
+  ? H
+  : T[0] | undefined;
+
+/**
+ * Tail
+ * @desc From tuple `T` remove the first element
+ * @example
+ *   // Expect: [number, boolean]
+ *   type Rest = Tail<[string, number, boolean]>;
+ *
+ *   // Expect: readonly number[]
+ *   type ReadonlyRest = Tail<readonly [string, ...number[]]>;
+ */
+export type Tail<T extends readonly unknown[]> = T extends readonly []
+  ? T
+  : T extends readonly [unknown?, ...infer R]
+  ? _PreserveReadonly<T, R>
+  : T;
+
+/**
+ * Last
+ * @desc Get the type of the last element of tuple `T`, `undefined` is added when the element is optional or a rest element
+ * @example
+ *   // Expect: boolean
+ *   type LastElement = Last<[string, number, boolean]>;
+ *
+ *   // Expect: number | undefined
+ *   type MaybeLastElement = Last<[string, number?]>;
+ */
+export type Last<T extends readonly unknown[]> = T extends readonly []
+  ? never
+  : _IsArray<T> extends true
+  ? T[number] | (T extends readonly [unknown, ...unknown[]] ? never : undefined)
+  : T extends readonly [infer H, ...infer R]
+  ? R extends readonly []
+    ? H
+    : Last<R>
+  : T extends readonly [unknown?, ...infer Rest]
+  ? Rest extends readonly []
+    ? T[0] | undefined
+    : Last<Rest>
+  : never;
+
+/**
+ * Init
+ * @desc From tuple `T` remove the last element
+ * @example
+ *   // Expect: [string, number]
+ *   type Rest = Init<[string, number, boolean]>;
+ *
+ *   // Expect: readonly [string]
+ *   type ReadonlyRest = Init<readonly [string, number?]>;
+ */
+export type Init<T extends readonly unknown[]> = _PreserveReadonly<T, _Init<T>>;
+
+/** @private */
+type _Init<T extends readonly unknown[]> = T extends readonly []
+  ? []
+  : T extends readonly [infer H, ...infer R]
+  ? R extends readonly []
+    ? []
+    : [H, ..._Init<R>]
+  : _IsArray<T> extends true
+  ? Array<T[number]>
+  : T extends readonly [unknown?, ...infer Rest]
+  ? Rest extends readonly []
+    ? []
+    : [T[0]?, ..._Init<Rest>]
+  : [];
+
+/**
+ * Prepend
+ * @desc Add element of type `E` at the start of tuple `T`
+ * @example
+ *   // Expect: [boolean, string, number]
+ *   type Args = Prepend<[string, number], boolean>;
+ */
+export type Prepend<T extends readonly unknown[], E> = _PreserveReadonly<
+  T,
+  [E, ...T]
+>;
+
+/**
+ * Append
+ * @desc Add element of type `E` at the end of tuple `T`
+ * @example
+ *   // Expect: [string, number, boolean]
+ *   type Args = Append<[string, number], boolean>;
+ */
+export type Append<T extends readonly unknown[], E> = _PreserveReadonly<
+  T,
+  [...T, E]
+>;
+
+/**
+ * Concat
+ * @desc Join the elements of tuples `A` and `B`, the result is readonly when any of them is readonly
+ * @example
+ *   // Expect: [string, number, boolean]
+ *   type Args = Concat<[string], [number, boolean]>;
+ */
+export type Concat<
+  A extends readonly unknown[],
+  B extends readonly unknown[]
+> = A extends unknown[]
+  ? _PreserveReadonly<B, [...A, ...B]>
+  : readonly [...A, ...B];
+
+/**
+ * Reverse
+ * @desc Reverse the order of the elements of tuple `T`
+ * @example
+ *   // Expect: [boolean, number, string]
+ *   type Reversed = Reverse<[string, number, boolean]>;
+ *
+ *   // Expect: (string | number)[]
+ *   type ReversedRest = Reverse<[string, ...number[]]>;
+ */
+export type Reverse<T extends readonly unknown[]> = _PreserveReadonly<
+  T,
+  _Reverse<T>
+>;
+
+/** @private */
+type _Reverse<T extends readonly unknown[]> = T extends readonly []
+  ? []
+  : T extends readonly [infer H, ...infer R]
+  ? [..._Reverse<R>, H]
+  : _IsArray<T> extends true
+  ? Array<T[number]>
+  : T extends readonly [unknown?, ...infer Rest]
+  ? [..._Reverse<Rest>, T[0]?]
+  : [];
+
+/**
+ * Length
+ * @desc Get the length of tuple `T`, a union of lengths for optional elements and `number` for rest elements
+ * @example
+ *   // Expect: 2
+ *   type Size = Length<[string, number]>;
+ *
+ *   // Expect: 1 | 2
+ *   type OptionalSize = Length<[string, number?]>;
+ */
+export type Length<T extends readonly unknown[]> = T['length'];
+
+/**
+ * Drop
+ * @desc From tuple `T` remove the first `N` elements
+ * @example
+ *   // Expect: [boolean]
+ *   type Rest = Drop<[string, number, boolean], 2>;
+ */
+export type Drop<
+  T extends readonly unknown[],
+  N extends number,
+  C extends unknown[] = []
+> = C['length'] extends N
+  ? T
+  : T extends readonly []
+  ? T
+  : Drop<Tail<T>, N, [...C, unknown]>;
+
+/**
+ * Take
+ * @desc From tuple `T` keep the first `N` elements
+ * @example
+ *   // Expect: [string, number]
+ *   type Args = Take<[string, number, boolean], 2>;
+ *
+ *   // Expect: [string?, string?]
+ *   type FirstTwo = Take<string[], 2>;
+ */
+export type Take<
+  T extends readonly unknown[],
+  N extends number
+> = _PreserveReadonly<T, _Take<T, N>>;
+
+/** @private */
+type _Take<
+  T extends readonly unknown[],
+  N extends number,
+  Acc extends unknown[] = [],
+  C extends unknown[] = []
+> = number extends N
+  ? [...T]
+  : C['length'] extends N
+  ? Acc
+  : T extends readonly []
+  ? Acc
+  : T extends readonly [infer H, ...infer R]
+  ? _Take<R, N, [...Acc, H], [...C, unknown]>
+  : T extends readonly [unknown?, ...infer Rest]
+  ? _Take<Rest, N, [...Acc, T[0]?], [...C, unknown]>
+  : Acc;
+
+/**
+ * TupleToUnion
+ * @desc Get the union type of the elements of tuple `T`
+ * @example
+ *   // Expect: string | number
+ *   type Element = TupleToUnion<[string, number]>;
+ */
+export type TupleToUnion<T extends readonly unknown[]> = T[number];
+
+/**
+ * Indices
+ * @desc Get the union type of the indices of tuple `T`, `number` for rest elements
+ * @example
+ *   // Expect: 0 | 1 | 2
+ *   type Index = Indices<[string, number, boolean]>;
+ */
+export type Indices<T extends readonly unknown[]> = _IsArray<T> extends true
+  ? number
+  : T extends readonly []
+  ? never
+  : T extends readonly [unknown?, ...infer R]
+  ? R['length'] | Indices<R>
+  : never;
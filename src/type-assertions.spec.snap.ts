@@ -0,0 +1,95 @@
+import { testType } from '../utils/test-utils';
+import {
+  Equals,
+  Expect,
+  ExpectFalse,
+  Extends,
+  expectNotAssignable,
+  expectType,
+} from './type-assertions';
+
+/**
+ * Fixtures
+ */
+
+type Props = { name: string; age?: number };
+
+const props: Props = { name: 'Yolo' };
+
+/**
+ * Tests
+ */
+
+// @dts-jest:group Equals
+{
+  // @dts-jest:pass:snap -> true
+  testType<Equals<Props, { name: string; age?: number }>>();
+  // @dts-jest:pass:snap -> false
+  testType<Equals<Props, { name: string; age: number | undefined }>>();
+  // @dts-jest:pass:snap -> false
+  testType<Equals<Props, { readonly name: string; age?: number }>>();
+  // @dts-jest:pass:snap -> false
+  testType<Equals<any, unknown>>();
+  // @dts-jest:pass:snap -> false
+  testType<Equals<never, any>>();
+  // @dts-jest:pass:snap -> false
+  testType<Equals<{ name: string } & { age?: number }, Props>>();
+
+  type Cases = [
+    Expect<Equals<Props, { name: string; age?: number }>>,
+    Expect<Equals<any, any>>,
+    Expect<Equals<never, never>>,
+    Expect<
+      Equals<Readonly<Props>, { readonly name: string; readonly age?: number }>
+    >,
+    ExpectFalse<Equals<Props, { name: string; age: number | undefined }>>,
+    ExpectFalse<Equals<Props, { readonly name: string; age?: number }>>,
+    ExpectFalse<Equals<string, any>>,
+    ExpectFalse<Equals<unknown, any>>,
+    ExpectFalse<Equals<never, any>>,
+    ExpectFalse<Equals<'a' | 'b', 'a'>>
+  ];
+}
+
+// @dts-jest:group Extends
+{
+  // @dts-jest:pass:snap -> true
+  testType<Extends<'name', string>>();
+  // @dts-jest:pass:snap -> false
+  testType<Extends<string | number, string>>();
+  // @dts-jest:pass:snap -> true
+  testType<Extends<never, string>>();
+
+  type Cases = [
+    Expect<Extends<'name', keyof Props>>,
+    Expect<Extends<{ name: string; age: number }, Props>>,
+    ExpectFalse<Extends<string | number, string>>,
+    ExpectFalse<Extends<{ age: number }, Props>>
+  ];
+}
+
+// @dts-jest:group expectType
+it('checks the type of a value and returns it', () => {
+  // @dts-jest:pass:snap -> Props
+  expectType<Props>()(props);
+  // @dts-jest:pass:snap -> string
+  expectType<string>()(props.name);
+
+  // @ts-expect-error
+  expectType<number>()(props.age);
+  // @ts-expect-error
+  expectType<any>()(props.name);
+
+  expect(expectType<number>()(Number('42'))).toBe(42);
+});
+
+// @dts-jest:group expectNotAssignable
+it('checks the type of a value is not assignable', () => {
+  // @dts-jest:pass:snap -> string
+  expectNotAssignable<number>()(props.name);
+
+  // @ts-expect-error
+  expectNotAssignable<string | undefined>()(props.name);
+
+  expect(expectNotAssignable<number>()('Yolo')).toBe('Yolo');
+});
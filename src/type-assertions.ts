@@ -0,0 +1,74 @@
+/**
+ * Equals
+ * @desc Test if types `A` and `B` are identical, `any` and `never` only equal themselves and `readonly` or optional modifiers must match.
+ * An intersection is not equal to the flattened object type with the same properties.
+ * @example
+ *   // Expect: true
+ *   Equals<{ name: string }, { name: string }>
+ *
+ *   // Expect: false
+ *   Equals<{ name: string }, { readonly name: string }>
+ *
+ *   // Expect: false
+ *   Equals<any, string>
+ */
+export type Equals<A, B> = (<G>() => G extends A ? 1 : 2) extends <
+  G
+>() => G extends B ? 1 : 2
+  ? true
+  : false;
+
+/**
+ * Extends
+ * @desc Test if type `A` is assignable to type `B`, checked without distributing over `A`
+ * @example
+ *   // Expect: true
+ *   Extends<'name', string>
+ *
+ *   // Expect: false
+ *   Extends<string | number, string>
+ */
+export type Extends<A, B> = [A] extends [B] ? true : false;
+
+/**
+ * Expect
+ * @desc Compile error unless `T` is `true`, used with `Equals` and `Extends` to write type tests checked by the compiler
+ * @example
+ *   type Cases = [
+ *     Expect<Equals<ReturnType<typeof getName>, string>>,
+ *     Expect<Extends<'name', keyof Props>>
+ *   ];
+ */
+export type Expect<T extends true> = T;
+
+/**
+ * ExpectFalse
+ * @desc Compile error unless `T` is `false`
+ * @example
+ *   type Cases = [ExpectFalse<Equals<string, any>>];
+ */
+export type ExpectFalse<T extends false> = T;
+
+/**
+ * Type-level test that the type of `value` is identical to `T` (see `Equals`), the compiler reports an error otherwise.
+ * It does nothing at runtime and returns `value`.
+ *
+ * @example
+ *   // Expect: Compile error (Argument of type 'number' is not assignable to parameter of type 'never')
+ *   expectType<string>()(Number('42'));
+ */
+export const expectType = <T>() => <V>(
+  value: V & (Equals<T, V> extends true ? unknown : never)
+): V => value;
+
+/**
+ * Type-level test that the type of `value` is not assignable to `T`, the compiler reports an error otherwise.
+ * It does nothing at runtime and returns `value`.
+ *
+ * @example
+ *   // Expect: Compile error (Argument of type 'string' is not assignable to parameter of type 'never')
+ *   expectNotAssignable<string>()(String(42));
+ */
+export const expectNotAssignable = <T>() => <V>(
+  value: V & (Extends<V, T> extends true ? never : unknown)
+): V => value;
@@ -1,4 +1,5 @@
 import { testType } from '../utils/test-utils';
+import { Equals, Expect } from './type-assertions';
 import {
   $Call,
   $Keys,
@@ -9,8 +10,15 @@ import {
   $ElementType,
   $Shape,
   $NonMaybeType,
+  $ObjMap,
+  $ObjMapi,
+  $TupleMap,
+  $KeyMirror,
+  $Exact,
+  $Rest,
   Class,
   mixed,
+  TypeMapper,
 } from './utility-types';
 import { _DeepReadonlyObject } from './mapped-types';
 /**
@@ -22,6 +30,22 @@ type DefaultProps = { age: number };
 
 class Foo {}
 
+// Examples migrated from Flow docs
+interface ExtractThunkReturnType extends TypeMapper {
+  return: this['args'][0] extends () => infer V ? V : never;
+}
+type Entry<K, V> = { k: K; v: V };
+interface ExtractReturnObjectType extends TypeMapper {
+  return: this['args'][1] extends () => infer V
+    ? Entry<this['args'][0], V>
+    : never;
+}
+type Thunks = { a: () => boolean; b: () => string };
+
+declare function overloaded(x: number): number;
+declare function overloaded(x: string): string;
+declare function overloaded(x: string, radix: number): boolean;
+
 /**
  * Tests
  */
@@ -30,24 +54,41 @@ class Foo {}
 {
   // @dts-jest:pass:snap -> "name" | "age" | "visible"
   testType<$Keys<Props>>();
+
+  type Cases = [Expect<Equals<$Keys<Props>, 'name' | 'age' | 'visible'>>];
 }
 
 // @dts-jest:group $Values
 {
-  // @dts-jest:pass:snap -> string | number | boolean
+  // @dts-jest:pass:snap -> $Values<Props>
   testType<$Values<Props>>();
+
+  type Cases = [Expect<Equals<$Values<Props>, string | number | boolean>>];
 }
 
 // @dts-jest:group $ReadOnly
 {
   // @dts-jest:pass:snap -> _DeepReadonlyObject<{ name: string; age: number; visible: boolean; }>
   testType<$ReadOnly<Props>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $ReadOnly<Props>,
+        _DeepReadonlyObject<{ name: string; age: number; visible: boolean }>
+      >
+    >
+  ];
 }
 
 // @dts-jest:group $Diff
 {
   // @dts-jest:pass:snap -> Pick<Props, "name" | "visible">
   testType<$Diff<Props, DefaultProps>>();
+
+  type Cases = [
+    Expect<Equals<$Diff<Props, DefaultProps>, Pick<Props, 'name' | 'visible'>>>
+  ];
 }
 
 // @dts-jest:group $PropertyType
@@ -59,6 +100,12 @@ class Foo {}
   testType<$PropertyType<[boolean, number], '0'>>();
   // @dts-jest:pass:snap -> number
   testType<$PropertyType<[boolean, number], '1'>>();
+
+  type Cases = [
+    Expect<Equals<$PropertyType<Props, 'name'>, string>>,
+    Expect<Equals<$PropertyType<[boolean, number], '0'>, boolean>>,
+    Expect<Equals<$PropertyType<[boolean, number], '1'>, number>>
+  ];
 }
 
 // @dts-jest:group $ElementType
@@ -76,11 +123,19 @@ class Foo {}
 
   // @dts-jest:pass:snap -> number
   testType<$ElementType<{ [key: string]: number }, string>>();
+
+  type Cases = [
+    Expect<Equals<$ElementType<Props, 'name'>, string>>,
+    Expect<Equals<$ElementType<[boolean, number], 0>, boolean>>,
+    Expect<Equals<$ElementType<[boolean, number], 1>, number>>,
+    Expect<Equals<$ElementType<boolean[], number>, boolean>>,
+    Expect<Equals<$ElementType<{ [key: string]: number }, string>, number>>
+  ];
 }
 
 // @dts-jest:group $Call
 {
-  // @dts-jest:pass:snap -> { type: "ADD"; payload: number; }
+  // @dts-jest:pass:snap -> { type: 'ADD'; payload: number; }
   testType<$Call<(amount: number) => { type: 'ADD'; payload: number }>>();
 
   type ExtractPropType<T extends { prop: any }> = (arg: T) => T['prop'];
@@ -95,28 +150,213 @@ class Foo {}
   type FnReturnType = $Call<ExtractReturnType<Fn>>;
   // @dts-jest:pass:snap -> number
   testType<FnReturnType>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $Call<(amount: number) => { type: 'ADD'; payload: number }>,
+        { type: 'ADD'; payload: number }
+      >
+    >,
+    Expect<Equals<PropType, number>>,
+    Expect<Equals<FnReturnType, number>>
+  ];
+}
+
+// @dts-jest:group $Call - arguments
+{
+  // @dts-jest:pass:snap -> boolean
+  testType<$Call<(a: string, b?: number) => boolean, string>>();
+  // @dts-jest:pass:snap -> boolean
+  testType<$Call<(a: string, b?: number) => boolean, string, number>>();
+  // @dts-jest:pass:snap -> number
+  testType<$Call<typeof overloaded, number>>();
+  // @dts-jest:pass:snap -> string
+  testType<$Call<typeof overloaded, string>>();
+  // @dts-jest:pass:snap -> boolean
+  testType<$Call<typeof overloaded, string, number>>();
+  // @dts-jest:pass:snap -> never
+  testType<$Call<typeof overloaded, boolean>>();
+  // @dts-jest:pass:snap -> number
+  testType<$Call<ExtractThunkReturnType, () => number>>();
+  // @dts-jest:pass:snap -> any
+  testType<$Call<typeof Array.prototype.reduce, (a: any, b: any) => any>>();
+  // @dts-jest:pass:snap -> unknown
+  testType<$Call<(...args: unknown[]) => unknown, string>>();
+
+  type Cases = [
+    Expect<Equals<$Call<(a: string, b?: number) => boolean, string>, boolean>>,
+    Expect<
+      Equals<$Call<(a: string, b?: number) => boolean, string, number>, boolean>
+    >,
+    Expect<Equals<$Call<typeof overloaded, number>, number>>,
+    Expect<Equals<$Call<typeof overloaded, string>, string>>,
+    Expect<Equals<$Call<typeof overloaded, string, number>, boolean>>,
+    Expect<Equals<$Call<typeof overloaded, boolean>, never>>,
+    Expect<Equals<$Call<ExtractThunkReturnType, () => number>, number>>,
+    Expect<
+      Equals<$Call<typeof Array.prototype.reduce, (a: any, b: any) => any>, any>
+    >,
+    Expect<Equals<$Call<(...args: unknown[]) => unknown, string>, unknown>>
+  ];
+}
+
+// @dts-jest:group $ObjMap
+{
+  type Values = $ObjMap<Thunks, ExtractThunkReturnType>;
+  // @dts-jest:pass:snap -> boolean
+  testType<Values['a']>();
+  // @dts-jest:pass:snap -> string
+  testType<Values['b']>();
+
+  type Strings = $ObjMap<Props, (value: string | number) => string>;
+  // @dts-jest:pass:snap -> string
+  testType<Strings['name']>();
+  // @dts-jest:pass:snap -> never
+  testType<Strings['visible']>();
+
+  type Cases = [
+    Expect<Equals<Values['a'], boolean>>,
+    Expect<Equals<Values['b'], string>>,
+    Expect<Equals<Strings['name'], string>>,
+    Expect<Equals<Strings['visible'], never>>
+  ];
+}
+
+// @dts-jest:group $ObjMapi
+{
+  type Entries = $ObjMapi<Thunks, ExtractReturnObjectType>;
+  // @dts-jest:pass:snap -> Entry<"a", boolean>
+  testType<Entries['a']>();
+  // @dts-jest:pass:snap -> Entry<"b", string>
+  testType<Entries['b']>();
+
+  type Keys = $ObjMapi<Props, (key: 'name' | 'age', value: unknown) => string>;
+  // @dts-jest:pass:snap -> string
+  testType<Keys['name']>();
+  // @dts-jest:pass:snap -> never
+  testType<Keys['visible']>();
+
+  type Cases = [
+    Expect<Equals<Entries['a'], Entry<'a', boolean>>>,
+    Expect<Equals<Entries['b'], Entry<'b', string>>>,
+    Expect<Equals<Keys['name'], string>>,
+    Expect<Equals<Keys['visible'], never>>
+  ];
+}
+
+// @dts-jest:group $TupleMap
+{
+  // @dts-jest:pass:snap -> [string, number]
+  testType<$TupleMap<[() => string, () => number], ExtractThunkReturnType>>();
+  // @dts-jest:pass:snap -> string[]
+  testType<$TupleMap<Array<() => string>, ExtractThunkReturnType>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $TupleMap<[() => string, () => number], ExtractThunkReturnType>,
+        [string, number]
+      >
+    >,
+    Expect<
+      Equals<$TupleMap<Array<() => string>, ExtractThunkReturnType>, string[]>
+    >
+  ];
+}
+
+// @dts-jest:group $KeyMirror
+{
+  type Mirror = $KeyMirror<{ a: number; b: string }>;
+  // @dts-jest:pass:snap -> "a"
+  testType<Mirror['a']>();
+  // @dts-jest:pass:snap -> "b"
+  testType<Mirror['b']>();
+
+  type Cases = [
+    Expect<Equals<Mirror['a'], 'a'>>,
+    Expect<Equals<Mirror['b'], 'b'>>
+  ];
+}
+
+// @dts-jest:group $Exact
+{
+  type ExactUser = $Exact<{ name: string }, { name: string; age: number }>;
+  // @dts-jest:pass:snap -> string
+  testType<ExactUser['name']>();
+  // @dts-jest:pass:snap -> never
+  testType<ExactUser['age']>();
+  // @dts-jest:pass:snap -> "name"
+  testType<keyof $Exact<{ name: string }>>();
+
+  type Cases = [
+    Expect<Equals<ExactUser['name'], string>>,
+    Expect<Equals<ExactUser['age'], never>>,
+    Expect<Equals<keyof $Exact<{ name: string }>, 'name'>>
+  ];
+}
+
+// @dts-jest:group $Rest
+{
+  // @dts-jest:pass:snap -> Pick<Pick<Props, "name" | "visible"> & Partial<Pick<Props, never>>, "name" | "visible">
+  testType<$Rest<Props, { age: number }>>();
+  // @dts-jest:pass:snap -> Pick<Pick<Props, "name"> & Partial<Pick<Props, "visible">>, "name" | "visible">
+  testType<$Rest<Props, { age: number; visible?: boolean }>>();
+  // @ts-expect-error
+  testType<$Rest<Props, { age: number }, Props>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $Rest<Props, { age: number }>,
+        Pick<
+          Pick<Props, 'name' | 'visible'> & Partial<Pick<Props, never>>,
+          'name' | 'visible'
+        >
+      >
+    >,
+    Expect<
+      Equals<
+        $Rest<Props, { age: number; visible?: boolean }>,
+        Pick<
+          Pick<Props, 'name'> & Partial<Pick<Props, 'visible'>>,
+          'name' | 'visible'
+        >
+      >
+    >
+  ];
 }
 
 // @dts-jest:group $Shape
 {
   // @dts-jest:pass:snap -> Partial<Props>
   testType<$Shape<Props>>();
+
+  type Cases = [Expect<Equals<$Shape<Props>, Partial<Props>>>];
 }
 
 // @dts-jest:group $NonMaybeType
 {
   // @dts-jest:pass:snap -> string
   testType<$NonMaybeType<string | null | undefined>>();
+
+  type Cases = [
+    Expect<Equals<$NonMaybeType<string | null | undefined>, string>>
+  ];
 }
 
 // @dts-jest:group Class
 {
   // @dts-jest:pass:snap -> Class<Foo>
   testType<Class<Foo>>();
+
+  type Cases = [Expect<Equals<Class<Foo>, new (...args: any[]) => Foo>>];
 }
 
 // @dts-jest:group mixed
 {
   // @dts-jest:pass:snap -> unknown
   testType<mixed>();
+
+  type Cases = [Expect<Equals<mixed, unknown>>];
 }
@@ -1,4 +1,5 @@
 import { testType } from '../utils/test-utils';
+import { Equals, Expect } from './type-assertions';
 import {
   $Call,
   $Keys,
@@ -9,8 +10,15 @@ import {
   $ElementType,
   $Shape,
   $NonMaybeType,
+  $ObjMap,
+  $ObjMapi,
+  $TupleMap,
+  $KeyMirror,
+  $Exact,
+  $Rest,
   Class,
   mixed,
+  TypeMapper,
 } from './utility-types';
 import { _DeepReadonlyObject } from './mapped-types';
 /**
@@ -22,6 +30,22 @@ type DefaultProps = { age: number };
 
 class Foo {}
 
+// Examples migrated from Flow docs
+interface ExtractThunkReturnType extends TypeMapper {
+  return: this['args'][0] extends () => infer V ? V : never;
+}
+type Entry<K, V> = { k: K; v: V };
+interface ExtractReturnObjectType extends TypeMapper {
+  return: this['args'][1] extends () => infer V
+    ? Entry<this['args'][0], V>
+    : never;
+}
+type Thunks = { a: () => boolean; b: () => string };
+
+declare function overloaded(x: number): number;
+declare function overloaded(x: string): string;
+declare function overloaded(x: string, radix: number): boolean;
+
 /**
  * Tests
  */
@@ -30,24 +54,41 @@ class Foo {}
 {
   // @dts-jest:pass:snap
   testType<$Keys<Props>>();
+
+  type Cases = [Expect<Equals<$Keys<Props>, 'name' | 'age' | 'visible'>>];
 }
 
 // @dts-jest:group $Values
 {
   // @dts-jest:pass:snap
   testType<$Values<Props>>();
+
+  type Cases = [Expect<Equals<$Values<Props>, string | number | boolean>>];
 }
 
 // @dts-jest:group $ReadOnly
 {
   // @dts-jest:pass:snap
   testType<$ReadOnly<Props>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $ReadOnly<Props>,
+        _DeepReadonlyObject<{ name: string; age: number; visible: boolean }>
+      >
+    >
+  ];
 }
 
 // @dts-jest:group $Diff
 {
   // @dts-jest:pass:snap
   testType<$Diff<Props, DefaultProps>>();
+
+  type Cases = [
+    Expect<Equals<$Diff<Props, DefaultProps>, Pick<Props, 'name' | 'visible'>>>
+  ];
 }
 
 // @dts-jest:group $PropertyType
@@ -59,6 +100,12 @@ class Foo {}
   testType<$PropertyType<[boolean, number], '0'>>();
   // @dts-jest:pass:snap
   testType<$PropertyType<[boolean, number], '1'>>();
+
+  type Cases = [
+    Expect<Equals<$PropertyType<Props, 'name'>, string>>,
+    Expect<Equals<$PropertyType<[boolean, number], '0'>, boolean>>,
+    Expect<Equals<$PropertyType<[boolean, number], '1'>, number>>
+  ];
 }
 
 // @dts-jest:group $ElementType
@@ -76,6 +123,14 @@ class Foo {}
 
   // @dts-jest:pass:snap
   testType<$ElementType<{ [key: string]: number }, string>>();
+
+  type Cases = [
+    Expect<Equals<$ElementType<Props, 'name'>, string>>,
+    Expect<Equals<$ElementType<[boolean, number], 0>, boolean>>,
+    Expect<Equals<$ElementType<[boolean, number], 1>, number>>,
+    Expect<Equals<$ElementType<boolean[], number>, boolean>>,
+    Expect<Equals<$ElementType<{ [key: string]: number }, string>, number>>
+  ];
 }
 
 // @dts-jest:group $Call
@@ -95,28 +150,213 @@ class Foo {}
   type FnReturnType = $Call<ExtractReturnType<Fn>>;
   // @dts-jest:pass:snap
   testType<FnReturnType>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $Call<(amount: number) => { type: 'ADD'; payload: number }>,
+        { type: 'ADD'; payload: number }
+      >
+    >,
+    Expect<Equals<PropType, number>>,
+    Expect<Equals<FnReturnType, number>>
+  ];
+}
+
+// @dts-jest:group $Call - arguments
+{
+  // @dts-jest:pass:snap
+  testType<$Call<(a: string, b?: number) => boolean, string>>();
+  // @dts-jest:pass:snap
+  testType<$Call<(a: string, b?: number) => boolean, string, number>>();
+  // @dts-jest:pass:snap
+  testType<$Call<typeof overloaded, number>>();
+  // @dts-jest:pass:snap
+  testType<$Call<typeof overloaded, string>>();
+  // @dts-jest:pass:snap
+  testType<$Call<typeof overloaded, string, number>>();
+  // @dts-jest:pass:snap
+  testType<$Call<typeof overloaded, boolean>>();
+  // @dts-jest:pass:snap
+  testType<$Call<ExtractThunkReturnType, () => number>>();
+  // @dts-jest:pass:snap
+  testType<$Call<typeof Array.prototype.reduce, (a: any, b: any) => any>>();
+  // @dts-jest:pass:snap
+  testType<$Call<(...args: unknown[]) => unknown, string>>();
+
+  type Cases = [
+    Expect<Equals<$Call<(a: string, b?: number) => boolean, string>, boolean>>,
+    Expect<
+      Equals<$Call<(a: string, b?: number) => boolean, string, number>, boolean>
+    >,
+    Expect<Equals<$Call<typeof overloaded, number>, number>>,
+    Expect<Equals<$Call<typeof overloaded, string>, string>>,
+    Expect<Equals<$Call<typeof overloaded, string, number>, boolean>>,
+    Expect<Equals<$Call<typeof overloaded, boolean>, never>>,
+    Expect<Equals<$Call<ExtractThunkReturnType, () => number>, number>>,
+    Expect<
+      Equals<$Call<typeof Array.prototype.reduce, (a: any, b: any) => any>, any>
+    >,
+    Expect<Equals<$Call<(...args: unknown[]) => unknown, string>, unknown>>
+  ];
+}
+
+// @dts-jest:group $ObjMap
+{
+  type Values = $ObjMap<Thunks, ExtractThunkReturnType>;
+  // @dts-jest:pass:snap
+  testType<Values['a']>();
+  // @dts-jest:pass:snap
+  testType<Values['b']>();
+
+  type Strings = $ObjMap<Props, (value: string | number) => string>;
+  // @dts-jest:pass:snap
+  testType<Strings['name']>();
+  // @dts-jest:pass:snap
+  testType<Strings['visible']>();
+
+  type Cases = [
+    Expect<Equals<Values['a'], boolean>>,
+    Expect<Equals<Values['b'], string>>,
+    Expect<Equals<Strings['name'], string>>,
+    Expect<Equals<Strings['visible'], never>>
+  ];
+}
+
+// @dts-jest:group $ObjMapi
+{
+  type Entries = $ObjMapi<Thunks, ExtractReturnObjectType>;
+  // @dts-jest:pass:snap
+  testType<Entries['a']>();
+  // @dts-jest:pass:snap
+  testType<Entries['b']>();
+
+  type Keys = $ObjMapi<Props, (key: 'name' | 'age', value: unknown) => string>;
+  // @dts-jest:pass:snap
+  testType<Keys['name']>();
+  // @dts-jest:pass:snap
+  testType<Keys['visible']>();
+
+  type Cases = [
+    Expect<Equals<Entries['a'], Entry<'a', boolean>>>,
+    Expect<Equals<Entries['b'], Entry<'b', string>>>,
+    Expect<Equals<Keys['name'], string>>,
+    Expect<Equals<Keys['visible'], never>>
+  ];
+}
+
+// @dts-jest:group $TupleMap
+{
+  // @dts-jest:pass:snap
+  testType<$TupleMap<[() => string, () => number], ExtractThunkReturnType>>();
+  // @dts-jest:pass:snap
+  testType<$TupleMap<Array<() => string>, ExtractThunkReturnType>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $TupleMap<[() => string, () => number], ExtractThunkReturnType>,
+        [string, number]
+      >
+    >,
+    Expect<
+      Equals<$TupleMap<Array<() => string>, ExtractThunkReturnType>, string[]>
+    >
+  ];
+}
+
+// @dts-jest:group $KeyMirror
+{
+  type Mirror = $KeyMirror<{ a: number; b: string }>;
+  // @dts-jest:pass:snap
+  testType<Mirror['a']>();
+  // @dts-jest:pass:snap
+  testType<Mirror['b']>();
+
+  type Cases = [
+    Expect<Equals<Mirror['a'], 'a'>>,
+    Expect<Equals<Mirror['b'], 'b'>>
+  ];
+}
+
+// @dts-jest:group $Exact
+{
+  type ExactUser = $Exact<{ name: string }, { name: string; age: number }>;
+  // @dts-jest:pass:snap
+  testType<ExactUser['name']>();
+  // @dts-jest:pass:snap
+  testType<ExactUser['age']>();
+  // @dts-jest:pass:snap
+  testType<keyof $Exact<{ name: string }>>();
+
+  type Cases = [
+    Expect<Equals<ExactUser['name'], string>>,
+    Expect<Equals<ExactUser['age'], never>>,
+    Expect<Equals<keyof $Exact<{ name: string }>, 'name'>>
+  ];
+}
+
+// @dts-jest:group $Rest
+{
+  // @dts-jest:pass:snap
+  testType<$Rest<Props, { age: number }>>();
+  // @dts-jest:pass:snap
+  testType<$Rest<Props, { age: number; visible?: boolean }>>();
+  // @ts-expect-error
+  testType<$Rest<Props, { age: number }, Props>>();
+
+  type Cases = [
+    Expect<
+      Equals<
+        $Rest<Props, { age: number }>,
+        Pick<
+          Pick<Props, 'name' | 'visible'> & Partial<Pick<Props, never>>,
+          'name' | 'visible'
+        >
+      >
+    >,
+    Expect<
+      Equals<
+        $Rest<Props, { age: number; visible?: boolean }>,
+        Pick<
+          Pick<Props, 'name'> & Partial<Pick<Props, 'visible'>>,
+          'name' | 'visible'
+        >
+      >
+    >
+  ];
 }
 
 // @dts-jest:group $Shape
 {
   // @dts-jest:pass:snap
   testType<$Shape<Props>>();
+
+  type Cases = [Expect<Equals<$Shape<Props>, Partial<Props>>>];
 }
 
 // @dts-jest:group $NonMaybeType
 {
   // @dts-jest:pass:snap
   testType<$NonMaybeType<string | null | undefined>>();
+
+  type Cases = [
+    Expect<Equals<$NonMaybeType<string | null | undefined>, string>>
+  ];
 }
 
 // @dts-jest:group Class
 {
   // @dts-jest:pass:snap
   testType<Class<Foo>>();
+
+  type Cases = [Expect<Equals<Class<Foo>, new (...args: any[]) => Foo>>];
 }
 
 // @dts-jest:group mixed
 {
   // @dts-jest:pass:snap
   testType<mixed>();
+
+  type Cases = [Expect<Equals<mixed, unknown>>];
 }
@@ -1,4 +1,11 @@
-import { SetComplement, DeepReadonly } from './mapped-types';
+import {
+  SetComplement,
+  DeepReadonly,
+  Exact,
+  Omit,
+  OptionalKeys,
+} from './mapped-types';
+import { ReturnTypeFor } from './function-types';
 
 /**
  * $Keys
@@ -97,9 +104,51 @@ export type $ElementType<
   K extends keyof T | number
 > = T[K];
 
+/**
+ * TypeMapper
+ * @desc Type-level function used in place of a generic function type by `$Call`, `$ObjMap`, `$ObjMapi` and `$TupleMap`.
+ * TypeScript can't instantiate generic function types like Flow's `<V>(() => V) => V` at the type level,
+ * so extend `TypeMapper` and compute `return` from the call arguments in `this['args']`.
+ * @example
+ *   // Flow: type ExtractReturnType = <V>(() => V) => V;
+ *   interface ExtractReturnType extends TypeMapper {
+ *     return: this['args'][0] extends () => infer V ? V : never;
+ *   }
+ *
+ *   // Expect: boolean
+ *   type Result = $Call<ExtractReturnType, () => boolean>;
+ */
+export interface TypeMapper {
+  readonly args: unknown[];
+  readonly return: unknown;
+}
+
+/** @private */
+declare const unsetArgument: unique symbol;
+
+/** @private */
+type _UnsetArgument = typeof unsetArgument;
+
+/** @private */
+type _CallArguments<Args extends unknown[]> = Args extends [
+  ...infer Init,
+  _UnsetArgument
+]
+  ? _CallArguments<Init>
+  : Args;
+
+/** @private */
+type _Call<Fn, Args extends unknown[]> = Fn extends TypeMapper
+  ? (Fn & { readonly args: Args })['return']
+  : Fn extends (...args: any[]) => any
+  ? ReturnTypeFor<Fn, Args>
+  : never;
+
 /**
  * $Call
- * @desc Get the return type from a given typeof expression
+ * @desc Get the return type of calling function type `Fn` with the argument types `A1`, `A2`, ... (up to 5).
+ * For overloaded functions the first overload accepting the arguments is picked.
+ * Without arguments it gets the return type of a single-argument function.
  * @see https://flow.org/en/docs/types/utilities/#toc-call
  * @example
  *   // Common use-case
@@ -114,12 +163,126 @@ export type $ElementType<
  *   type ExtractReturnType<T extends () => any> = (arg: T) => ReturnType<T>;
  *   type Fn = () => number;
  *   type FnReturnType = $Call<ExtractReturnType<Fn>>; // number
+ *
+ *   // Overloaded functions
+ *   declare function parse(value: string): number;
+ *   declare function parse(value: string, radix: number): string;
+ *   type Parsed = $Call<typeof parse, string, number>; // string
  */
-export type $Call<Fn extends (...args: any[]) => any> = Fn extends (
-  arg: any
-) => infer RT
-  ? RT
-  : never;
+export type $Call<
+  Fn extends ((...args: any[]) => any) | TypeMapper,
+  A1 = _UnsetArgument,
+  A2 = _UnsetArgument,
+  A3 = _UnsetArgument,
+  A4 = _UnsetArgument,
+  A5 = _UnsetArgument
+> = [A1] extends [_UnsetArgument]
+  ? Fn extends (arg: any) => infer RT
+    ? RT
+    : never
+  : _Call<Fn, _CallArguments<[A1, A2, A3, A4, A5]>>;
+
+/**
+ * $ObjMap
+ * @desc Map the value types of object type `O` to the return types of calling `F` with them.
+ * Use `TypeMapper` in place of generic function types.
+ * @see https://flow.org/en/docs/types/utilities/#toc-objmap
+ * @example
+ *   interface ExtractReturnType extends TypeMapper {
+ *     return: this['args'][0] extends () => infer V ? V : never;
+ *   }
+ *   type Thunks = { a: () => boolean; b: () => string };
+ *
+ *   // Expect: { a: boolean; b: string; }
+ *   type Values = $ObjMap<Thunks, ExtractReturnType>;
+ */
+export type $ObjMap<
+  O extends object,
+  F extends ((...args: any[]) => any) | TypeMapper
+> = { [K in keyof O]: _Call<F, [O[K]]> };
+
+/**
+ * $ObjMapi
+ * @desc Map the value types of object type `O` to the return types of calling `F` with their keys and value types.
+ * Use `TypeMapper` in place of generic function types.
+ * @see https://flow.org/en/docs/types/utilities/#toc-objmapi
+ * @example
+ *   // Flow: type ExtractReturnObjectType = <K, V>(K, () => V) => { k: K, v: V };
+ *   type Entry<K, V> = { k: K; v: V };
+ *   interface ExtractReturnObjectType extends TypeMapper {
+ *     return: this['args'][1] extends () => infer V ? Entry<this['args'][0], V> : never;
+ *   }
+ *   type Thunks = { a: () => boolean; b: () => string };
+ *
+ *   // Expect: { a: Entry<"a", boolean>; b: Entry<"b", string>; }
+ *   type Entries = $ObjMapi<Thunks, ExtractReturnObjectType>;
+ */
+export type $ObjMapi<
+  O extends object,
+  F extends ((...args: any[]) => any) | TypeMapper
+> = { [K in keyof O]: _Call<F, [K, O[K]]> };
+
+/**
+ * $TupleMap
+ * @desc Map the element types of tuple or array type `T` to the return types of calling `F` with them.
+ * Use `TypeMapper` in place of generic function types.
+ * @see https://flow.org/en/docs/types/utilities/#toc-tuplemap
+ * @example
+ *   interface ExtractReturnType extends TypeMapper {
+ *     return: this['args'][0] extends () => infer V ? V : never;
+ *   }
+ *
+ *   // Expect: [boolean, string]
+ *   type Values = $TupleMap<[() => boolean, () => string], ExtractReturnType>;
+ */
+export type $TupleMap<
+  T extends readonly unknown[],
+  F extends ((...args: any[]) => any) | TypeMapper
+> = { [K in keyof T]: _Call<F, [T[K]]> };
+
+/**
+ * $KeyMirror
+ * @desc Map the value types of object type `O` to their keys, same as Flow's `$ObjMapi<O, <K>(K) => K>`
+ * @see https://flow.org/en/docs/types/utilities/#toc-objmapi
+ * @example
+ *   type Props = { name: string; age: number };
+ *
+ *   // Expect: { name: "name"; age: "age"; }
+ *   type PropsKeys = $KeyMirror<Props>;
+ */
+export type $KeyMirror<O extends object> = { [K in keyof O]: K };
+
+/**
+ * $Exact
+ * @desc Object type `T` rejecting the excess properties of a generic `Shape`, object types in TypeScript are always inexact.
+ * Object literals are checked for excess properties without it.
+ * @see https://flow.org/en/docs/types/utilities/#toc-exact
+ * @example
+ *   type Props = { name: string };
+ *   const send = <P extends Props>(props: P & $Exact<Props, P>) => {};
+ *
+ *   // Expect: Compile error (Type 'number' is not assignable to type 'never'.)
+ *   send({ name: 'Yolo', age: 99 } as { name: string; age: number });
+ */
+export type $Exact<T extends object, Shape = T> = Exact<T, Shape>;
+
+/**
+ * $Rest
+ * @desc Get the type of the object rest operation of `A` destructuring the properties of `B`.
+ * Properties required in `B` are removed, properties optional in `B` become optional.
+ * @see https://flow.org/en/docs/types/utilities/#toc-rest
+ * @example
+ *   type Props = { name: string; age: number; visible: boolean };
+ *
+ *   // Expect: { name: string; visible?: boolean; }
+ *   type RestProps = $Rest<Props, { age: number; visible?: boolean }>;
+ */
+export type $Rest<A extends object, B extends object> = _Rest<
+  Omit<A, keyof B> & Partial<Pick<A, OptionalKeys<B> & keyof A>>
+>;
+
+/** @private */
+type _Rest<I> = Pick<I, keyof I>;
 
 /**
  * $Shape
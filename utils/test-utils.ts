@@ -1,9 +1,7 @@
-/** @internal */
+/**
+ * @internal
+ * Trigger of the dts-jest type snapshots, type checks belong to `Expect<Equals<...>>` cases from `src/type-assertions`
+ */
 export function testType<T>(a?: T): T {
   return undefined as any;
 }
-
-// export interface IsType<T> {
-//   (v: T): '1';
-//   (v: any): '0';
-// }